@@ -1,10 +1,62 @@
+export {
+  defaultKeybindings,
+  getKeybindings,
+  setKeybindings,
+} from './src/keybindings.js';
+export type {
+  Action,
+  KeybindingOverrides,
+  Keybindings,
+} from './src/keybindings.js';
+export {
+  defaultLocale,
+  getLocale,
+  resolveLocale,
+  setLocale,
+} from './src/locale.js';
+export type { Locale, LocaleOverrides } from './src/locale.js';
+export { default as AutocompletePrompt } from './src/prompts/autocomplete.js';
 export { default as ConfirmPrompt } from './src/prompts/confirm.js';
+export { default as DatePrompt } from './src/prompts/date.js';
+export type { DateSegment } from './src/prompts/date.js';
+export { default as EditorPrompt } from './src/prompts/editor.js';
+export { default as FormPrompt } from './src/prompts/form.js';
+export type { FormField } from './src/prompts/form.js';
 export { default as GroupMultiSelectPrompt } from './src/prompts/group-multiselect.js';
 export { default as MultiSelectPrompt } from './src/prompts/multi-select.js';
+export { default as MultilineTextPrompt } from './src/prompts/multiline.js';
+export { default as NumberPrompt } from './src/prompts/number.js';
 export { default as PasswordPrompt } from './src/prompts/password.js';
-export { default as Prompt, isCancel } from './src/prompts/prompt.js';
-export type { State } from './src/prompts/prompt.js';
+export { default as PathPrompt } from './src/prompts/path.js';
+export {
+  NonInteractiveError,
+  default as Prompt,
+  cancel as cancelSymbol,
+  isBack,
+  isCancel,
+  withBackKey,
+  withPresetAnswer,
+  withPromptListener,
+  withSignal,
+} from './src/prompts/prompt.js';
+export type {
+  BackKey,
+  PresetAnswer,
+  PromptEvents,
+  State,
+} from './src/prompts/prompt.js';
 export { default as SelectPrompt } from './src/prompts/select.js';
 export { default as SelectKeyPrompt } from './src/prompts/select-key.js';
 export { default as TextPrompt } from './src/prompts/text.js';
-export { block } from './src/utils.js';
+export {
+  block,
+  fuzzyMatch,
+  getColumns,
+  getDefaultStreams,
+  getRows,
+  setDefaultStreams,
+  withCursor,
+} from './src/utils.js';
+export type { FuzzyMatch, Streams } from './src/utils.js';
+export { default as Viewport, frameText } from './src/viewport.js';
+export type { Frame } from './src/viewport.js';
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../testing/index.js';
+import {
+  defaultKeybindings,
+  isCharacterKey,
+  keyActions,
+  resolveKeybindings,
+  setKeybindings,
+} from './keybindings.js';
+import { defaultLocale } from './locale.js';
+import TextPrompt from './prompts/text.js';
+
+const text = (opts: Partial<ConstructorParameters<typeof TextPrompt>[0]>) => {
+  const terminal = createTestTerminal();
+  const prompt = new TextPrompt({
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+    ...opts,
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+afterEach(() => {
+  setKeybindings({});
+});
+
+describe('resolveKeybindings', () => {
+  it('binds the confirm keys of the locale', () => {
+    const locale = { ...defaultLocale, yesKeys: ['o'], noKeys: ['n'] };
+    const bindings = resolveKeybindings(undefined, locale);
+    expect(bindings.confirmYes).toEqual(['o']);
+    expect(bindings.up).toEqual(defaultKeybindings.up);
+  });
+
+  it('prefers the prompt overrides to the global ones', () => {
+    setKeybindings({ up: ['w'], down: ['s'] });
+    const bindings = resolveKeybindings({ up: ['ctrl+p'] });
+    expect(bindings.up).toEqual(['ctrl+p']);
+    expect(bindings.down).toEqual(['s']);
+    expect(bindings.left).toEqual(defaultKeybindings.left);
+  });
+
+  it('unbinds an action bound to no key', () => {
+    const bindings = resolveKeybindings({ toggleAll: [] });
+    expect(keyActions(bindings, 'a', { name: 'a' })).toEqual([]);
+  });
+});
+
+describe('isCharacterKey', () => {
+  it('tells typed characters from control keys', () => {
+    expect(isCharacterKey('a', { name: 'a' })).toBe(true);
+    expect(isCharacterKey('A', { name: 'a', shift: true })).toBe(true);
+    expect(isCharacterKey(' ', { name: 'space' })).toBe(true);
+    expect(isCharacterKey('\r', { name: 'return' })).toBe(false);
+    expect(isCharacterKey('\x7f', { name: 'backspace' })).toBe(false);
+    expect(isCharacterKey('\x03', { name: 'c', ctrl: true })).toBe(false);
+    expect(isCharacterKey(undefined, { name: 'up' })).toBe(false);
+  });
+});
+
+describe('keybindings of text prompts', () => {
+  it('keeps the text when return is not bound to submit', async () => {
+    const { prompt, answer, terminal } = text({
+      keybindings: { submit: ['ctrl+s'] },
+    });
+    await terminal.type('hello');
+    await terminal.sendKeys('return');
+    expect(prompt.state).toBe('active');
+    expect(prompt.value).toBe('hello');
+    // Ctrl+S
+    await terminal.sendKeys('\x13');
+    expect(await answer).toBe('hello');
+  });
+
+  it('types the characters bound to actions', async () => {
+    setKeybindings({ submit: ['return', 'q'], up: ['k'] });
+    const { answer, terminal } = text({});
+    await terminal.type('kq');
+    await terminal.sendKeys('return');
+    expect(await answer).toBe('kq');
+  });
+});
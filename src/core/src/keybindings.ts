@@ -0,0 +1,111 @@
+import type { Key } from 'readline';
+import { type Locale, getLocale } from './locale.js';
+
+export type Action =
+  | 'up'
+  | 'down'
+  | 'left'
+  | 'right'
+  | 'toggle'
+  | 'toggleAll'
+  | 'submit'
+  | 'cancel'
+  | 'confirmYes'
+  | 'confirmNo';
+
+/**
+ * Keys bound to each action. A key is described by its name, such as `up`,
+ * `return`, `escape`, `space` or `a`, after the modifiers it is pressed with,
+ * as in `ctrl+c` or `shift+tab`. Letters match both cases unless bound with
+ * a modifier.
+ */
+export type Keybindings = Record<Action, string[]>;
+
+/** Keys replacing the ones bound to some actions, `[]` unbinds an action. */
+export type KeybindingOverrides = Partial<Keybindings>;
+
+/** `confirmYes` and `confirmNo` follow the keys of the locale unless bound. */
+export const defaultKeybindings: Keybindings = {
+  up: ['up', 'k'],
+  down: ['down', 'j'],
+  left: ['left', 'h'],
+  right: ['right', 'l'],
+  toggle: ['space'],
+  toggleAll: ['a'],
+  submit: ['return'],
+  cancel: ['ctrl+c'],
+  confirmYes: ['y'],
+  confirmNo: ['n'],
+};
+
+let globalOverrides: KeybindingOverrides = {};
+
+/**
+ * Binds keys for every prompt that does not override them, on top of the
+ * default keybindings.
+ */
+export function setKeybindings(overrides: KeybindingOverrides): void {
+  globalOverrides = overrides;
+}
+
+export function getKeybindings(): Keybindings {
+  return resolveKeybindings(undefined);
+}
+
+export function resolveKeybindings(
+  overrides: KeybindingOverrides | undefined,
+  locale: Locale = getLocale(),
+): Keybindings {
+  return {
+    ...defaultKeybindings,
+    confirmYes: locale.yesKeys,
+    confirmNo: locale.noKeys,
+    ...globalOverrides,
+    ...overrides,
+  };
+}
+
+/** Whether the key types a character rather than being a control key. */
+export function isCharacterKey(char: string | undefined, key?: Key): boolean {
+  return (
+    char !== undefined &&
+    char.length === 1 &&
+    char >= ' ' &&
+    char !== '\x7f' &&
+    !key?.ctrl &&
+    !key?.meta
+  );
+}
+
+function matchesKey(
+  binding: string,
+  char: string | undefined,
+  key?: Key,
+): boolean {
+  const modifiers = binding.toLowerCase().split('+');
+  const name = modifiers.pop()!;
+  if (modifiers.length === 0 && name.length === 1) {
+    return isCharacterKey(char, key) && char!.toLowerCase() === name;
+  }
+  const ctrl = modifiers.includes('ctrl');
+  const meta = modifiers.includes('meta') || modifiers.includes('alt');
+  const shift = modifiers.includes('shift');
+  return (
+    (key?.name ?? char) === name &&
+    !!key?.ctrl === ctrl &&
+    // readline marks a lone escape as a meta key
+    (name === 'escape' || !!key?.meta === meta) &&
+    !!key?.shift === shift
+  );
+}
+
+/** Actions bound to the key, in the order they are declared. */
+export function keyActions(
+  bindings: Keybindings,
+  char: string | undefined,
+  key?: Key,
+): Action[] {
+  return (Object.keys(bindings) as Action[]).filter((action) =>
+    bindings[action].some((binding) => matchesKey(binding, char, key)),
+  );
+}
@@ -0,0 +1,186 @@
+/** Text shown to the user by the prompts and helpers. */
+export interface Locale {
+  /** Keys answering a confirm prompt, unless `confirmYes` is bound. */
+  yesKeys: string[];
+  /** Keys declining a confirm prompt, unless `confirmNo` is bound. */
+  noKeys: string[];
+  yes: string;
+  no: string;
+  canceled: string;
+  failed: string;
+  validating: string;
+  /** Shown in place of an empty selection. */
+  none: string;
+  /** Number of options selected, shown next to the search. */
+  selectedCount: (count: number) => string;
+  /** Shown after the message of a prompt answered by a preset. */
+  preset: string;
+  noMatches: string;
+  noMatchingOption: string;
+  selectAtLeastOne: string;
+  /** Hint after the selection error, given the styled keys. */
+  selectHint: (select: string, submit: string) => string;
+  enterNumber: string;
+  enterWholeNumber: string;
+  numberTooSmall: (min: number) => string;
+  numberTooLarge: (max: number) => string;
+  enterPath: string;
+  pathOutsideRoot: (root: string) => string;
+  pathNotFound: string;
+  pathNotDirectory: string;
+  pathExtension: (extensions: string[]) => string;
+  dateTooEarly: string;
+  dateTooLate: string;
+  dateHint: string;
+  /** Month names, starting with January. */
+  months: string[];
+  /** Short day names, starting with Sunday. */
+  weekdays: string[];
+  editorFailed: (command: string, reason: string) => string;
+  editorExited: (command: string, code: number | null) => string;
+  editorOpen: (command: string) => string;
+  editorRetry: string;
+  moreLines: (count: number) => string;
+  /**
+   * Hint of a multiline prompt, given the key submitting it and the number of
+   * lines, with `maxLines` infinite when there is no limit.
+   */
+  multilineHint: (submit: string, lines: number, maxLines: number) => string;
+  formHint: string;
+  /** Remaining time of a progress bar, given the formatted duration. */
+  timeLeft: (duration: string) => string;
+  reviewTitle: string;
+  reviewMessage: string;
+  reviewConfirm: string;
+  reviewEdit: (label: string) => string;
+  reviewCancel: string;
+  taskRetrying: (attempt: number, retries: number) => string;
+  /** Message of the prompt asking what to do about a failed task. */
+  taskFailed: (title: string, reason: string) => string;
+  taskRetry: string;
+  taskSkip: string;
+  taskSkipHint: string;
+  taskAbort: string;
+  taskRollingBack: (title: string) => string;
+  taskRolledBack: (title: string) => string;
+  taskRollbackFailed: (title: string, reason: string) => string;
+  tasksSucceeded: (count: number) => string;
+  tasksFailed: (count: number) => string;
+  tasksSkipped: (count: number) => string;
+  tasksRolledBack: (count: number) => string;
+  /** Rejections of an answer that is not a value of the prompt. */
+  expectedOptions: string;
+  unknownOption: (value: string) => string;
+  expectedBoolean: string;
+  expectedDate: string;
+  expectedText: string;
+  expectedPath: string;
+  expectedNumber: string;
+  expectedFieldValues: string;
+}
+
+export type LocaleOverrides = Partial<Locale>;
+
+export const defaultLocale: Locale = {
+  yesKeys: ['y'],
+  noKeys: ['n'],
+  yes: 'Yes',
+  no: 'No',
+  canceled: 'Canceled',
+  failed: 'Something went wrong',
+  validating: 'Validating...',
+  none: 'none',
+  selectedCount: (count) => `(${count} selected)`,
+  preset: '(preset)',
+  noMatches: 'No matches found',
+  noMatchingOption: 'No matching option.',
+  selectAtLeastOne: 'Please select at least one option.',
+  selectHint: (select, submit) =>
+    `Press ${select} to select, ${submit} to submit`,
+  enterNumber: 'Please enter a number',
+  enterWholeNumber: 'Please enter a whole number',
+  numberTooSmall: (min) =>
+    `Please enter a number greater than or equal to ${min}`,
+  numberTooLarge: (max) => `Please enter a number less than or equal to ${max}`,
+  enterPath: 'Please enter a path',
+  pathOutsideRoot: (root) => `The path must be inside ${root}`,
+  pathNotFound: 'The path does not exist',
+  pathNotDirectory: 'The path is not a directory',
+  pathExtension: (extensions) =>
+    `The file must end with ${extensions.join(', ')}`,
+  dateTooEarly: 'The date is too early',
+  dateTooLate: 'The date is too late',
+  dateHint: 'up/down to change, left/right to move',
+  months: [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+  ],
+  weekdays: ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'],
+  editorFailed: (command, reason) => `Could not open ${command}: ${reason}`,
+  editorExited: (command, code) => `${command} exited with code ${code}`,
+  editorOpen: (command) => `Press enter to open ${command}`,
+  editorRetry: '(enter to edit again)',
+  moreLines: (count) => `… ${count} more lines`,
+  multilineHint: (submit, lines, maxLines) =>
+    Number.isFinite(maxLines)
+      ? `${submit} to submit, ${lines}/${maxLines} lines`
+      : `${submit} to submit`,
+  formHint: 'tab to move, enter to submit',
+  timeLeft: (duration) => `${duration} left`,
+  reviewTitle: 'Review your answers',
+  reviewMessage: 'Are these answers correct?',
+  reviewConfirm: 'Confirm',
+  reviewEdit: (label) => `Edit ${label}`,
+  reviewCancel: 'Cancel',
+  taskRetrying: (attempt, retries) => `(retry ${attempt}/${retries})`,
+  taskFailed: (title, reason) => `${title} failed: ${reason}`,
+  taskRetry: 'Retry',
+  taskSkip: 'Skip',
+  taskSkipHint: 'carry on without it',
+  taskAbort: 'Abort',
+  taskRollingBack: (title) => `Rolling back ${title}`,
+  taskRolledBack: (title) => `Rolled back ${title}`,
+  taskRollbackFailed: (title, reason) =>
+    `Could not roll back ${title}: ${reason}`,
+  tasksSucceeded: (count) => `${count} succeeded`,
+  tasksFailed: (count) => `${count} failed`,
+  tasksSkipped: (count) => `${count} skipped`,
+  tasksRolledBack: (count) => `${count} rolled back`,
+  expectedOptions: 'Expected a list of options',
+  unknownOption: (value) => `Unknown option: ${value}`,
+  expectedBoolean: 'Expected a boolean',
+  expectedDate: 'Expected a date',
+  expectedText: 'Expected text',
+  expectedPath: 'Expected a path',
+  expectedNumber: 'Expected a number',
+  expectedFieldValues: 'Expected the values of the fields',
+};
+
+let currentLocale = defaultLocale;
+
+/**
+ * Sets the text used by every prompt. Overrides are applied on top of the
+ * default English locale.
+ */
+export function setLocale(locale: Locale | LocaleOverrides): void {
+  currentLocale = { ...defaultLocale, ...locale };
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/** The current locale with the overrides of a single call applied. */
+export function resolveLocale(overrides?: LocaleOverrides): Locale {
+  return overrides ? { ...currentLocale, ...overrides } : currentLocale;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import AutocompletePrompt from './autocomplete.js';
+
+const options = ['apple', 'apricot', 'banana', 'blueberry'].map((value) => ({
+  value,
+}));
+
+const autocomplete = (multiple = false) => {
+  const terminal = createTestTerminal();
+  const prompt = new AutocompletePrompt({
+    options,
+    multiple,
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+describe('AutocompletePrompt', () => {
+  it('filters and ranks the options by the search', async () => {
+    const { prompt, answer, terminal } = autocomplete();
+    await terminal.type('a');
+    expect(prompt.filteredOptions.map(({ value }) => value)).toEqual([
+      'apple',
+      'apricot',
+      'banana',
+    ]);
+    await terminal.type('r');
+    expect(prompt.filteredOptions.map(({ value }) => value)).toEqual([
+      'apricot',
+    ]);
+    expect(prompt.getMatches(options[1]!)).toEqual([0, 2]);
+    await terminal.sendKeys('return');
+    expect(await answer).toBe('apricot');
+  });
+
+  it('keeps the selections of multiple options while filtering', async () => {
+    const { prompt, answer, terminal } = autocomplete(true);
+    await terminal.type('ban');
+    await terminal.sendKeys('tab');
+    // Ctrl+U clears the search
+    await terminal.sendKeys('\x15');
+    await terminal.type('ap');
+    expect(prompt.filteredOptions).not.toContain(options[2]);
+    await terminal.sendKeys('down', 'tab', 'return');
+    expect(await answer).toEqual(['banana', 'apricot']);
+  });
+});
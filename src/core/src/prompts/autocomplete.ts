@@ -0,0 +1,173 @@
+import color from 'picocolors';
+import { type FuzzyMatch, fuzzyMatch } from '../utils.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+
+interface AutocompleteOptions<
+  T extends { value: any; label?: string },
+> extends PromptOptions<AutocompletePrompt<T>> {
+  options: T[];
+  initialValue?: T['value'];
+  initialValues?: Array<T['value']>;
+  multiple?: boolean;
+  required?: boolean;
+  filter?: (search: string, option: T) => FuzzyMatch | undefined;
+}
+
+const defaultFilter = <T extends { value: any; label?: string }>(
+  search: string,
+  option: T,
+) => fuzzyMatch(search, option.label ?? String(option.value));
+
+export default class AutocompletePrompt<
+  T extends { value: any; label?: string },
+> extends Prompt<PromptEvents<T['value'] | Array<T['value']>>> {
+  options: T[];
+  filteredOptions: T[];
+  cursor: number = 0;
+  search = '';
+  searchWithCursor = '';
+  selectedValues: Array<T['value']>;
+  multiple: boolean;
+  #matches = new Map<T, number[]>();
+  #filter: (search: string, option: T) => FuzzyMatch | undefined;
+  #hasInitialValue: boolean;
+
+  protected override get hasDefault(): boolean {
+    return this.#hasInitialValue;
+  }
+
+  /** Indices of the characters of the option label matched by the search. */
+  getMatches(option: T): number[] {
+    return this.#matches.get(option) ?? [];
+  }
+
+  private get _value() {
+    return this.filteredOptions[this.cursor]?.value;
+  }
+
+  private changeValue() {
+    this.value = this.multiple ? [...this.selectedValues] : this._value;
+  }
+
+  private filterOptions() {
+    this.#matches.clear();
+    if (!this.search) {
+      this.filteredOptions = [...this.options];
+      return;
+    }
+    const scored: Array<{ option: T; score: number; index: number }> = [];
+    this.options.forEach((option, index) => {
+      const match = this.#filter(this.search, option);
+      if (!match) return;
+      this.#matches.set(option, match.indices);
+      scored.push({ option, score: match.score, index });
+    });
+    this.filteredOptions = scored
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ option }) => option);
+  }
+
+  private toggleValue() {
+    const value = this._value;
+    if (this.filteredOptions.length === 0) return;
+    this.selectedValues = this.selectedValues.includes(value)
+      ? this.selectedValues.filter((v) => v !== value)
+      : [...this.selectedValues, value];
+  }
+
+  protected override setValue(
+    value: T['value'] | Array<T['value']>,
+  ): string | void {
+    const values = this.multiple ? value : [value];
+    if (!Array.isArray(values)) return this.locale.expectedOptions;
+    const unknown = values.find(
+      (v) => !this.options.some((option) => option.value === v),
+    );
+    if (unknown !== undefined) {
+      return this.locale.unknownOption(String(unknown));
+    }
+    if (this.multiple) {
+      this.selectedValues = [...values];
+    } else {
+      this.cursor = this.filteredOptions.findIndex(
+        (option) => option.value === value,
+      );
+    }
+    this.changeValue();
+  }
+
+  constructor({
+    initialValue,
+    initialValues,
+    ...opts
+  }: AutocompleteOptions<T>) {
+    // the typed text is tracked as the search, so the initial value must
+    // not be written into the input line
+    super(opts);
+
+    this.options = opts.options;
+    this.multiple = opts.multiple ?? false;
+    this.#filter = opts.filter ?? defaultFilter;
+    this.filteredOptions = [...this.options];
+    this.selectedValues = [...(initialValues ?? [])];
+    this.cursor = Math.max(
+      this.options.findIndex(({ value }) =>
+        this.multiple
+          ? value === this.selectedValues[0]
+          : value === initialValue,
+      ),
+      0,
+    );
+    this.#hasInitialValue = this.multiple
+      ? initialValues !== undefined
+      : initialValue !== undefined;
+    this.changeValue();
+    this.searchWithCursor = color.inverse(color.hidden('_'));
+
+    this.on('value', () => {
+      if (this.userInput !== this.search) {
+        this.search = this.userInput;
+        this.filterOptions();
+        this.cursor = 0;
+      }
+      if (this._cursor >= this.search.length) {
+        this.searchWithCursor = `${this.search}${color.inverse(color.hidden('_'))}`;
+      } else {
+        const s1 = this.search.slice(0, this._cursor);
+        const s2 = this.search.slice(this._cursor);
+        this.searchWithCursor = `${s1}${color.inverse(s2[0]!)}${s2.slice(1)}`;
+      }
+      this.changeValue();
+    });
+
+    this.on('key', (char) => {
+      if (this.multiple && char === '\t') {
+        this.toggleValue();
+        this.changeValue();
+      }
+    });
+
+    this.on('cursor', (key) => {
+      if (this.filteredOptions.length === 0) return;
+      switch (key) {
+        case 'up':
+          this.cursor =
+            this.cursor === 0
+              ? this.filteredOptions.length - 1
+              : this.cursor - 1;
+          break;
+        case 'down':
+          this.cursor =
+            this.cursor === this.filteredOptions.length - 1
+              ? 0
+              : this.cursor + 1;
+          break;
+      }
+      this.changeValue();
+    });
+
+    this.on('finalize', () => {
+      this.searchWithCursor = this.search;
+    });
+  }
+}
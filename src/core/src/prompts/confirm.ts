@@ -1,12 +1,12 @@
 import { cursor } from 'sisteransi';
-import Prompt, { type PromptOptions } from './prompt.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 interface ConfirmOptions extends PromptOptions<ConfirmPrompt> {
   active: string;
   inactive: string;
   initialValue?: boolean;
 }
-export default class ConfirmPrompt extends Prompt {
+export default class ConfirmPrompt extends Prompt<PromptEvents<boolean>> {
   get cursor(): 0 | 1 {
     return this.value ? 0 : 1;
   }
@@ -15,6 +15,11 @@ export default class ConfirmPrompt extends Prompt {
     return this.cursor === 0;
   }
 
+  protected override setValue(value: boolean): string | void {
+    if (typeof value !== 'boolean') return this.locale.expectedBoolean;
+    this.value = value;
+  }
+
   constructor(opts: ConfirmOptions) {
     super(opts, false);
     this.value = opts.initialValue ? true : false;
@@ -23,9 +28,10 @@ export default class ConfirmPrompt extends Prompt {
       this.value = this._value;
     });
 
-    this.on('confirm', (confirm) => {
+    this.on('action', (action) => {
+      if (action !== 'confirmYes' && action !== 'confirmNo') return;
       this.output.write(cursor.move(0, -1));
-      this.value = confirm;
+      this.value = action === 'confirmYes';
       this.state = 'submit';
       this.close();
     });
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import DatePrompt from './date.js';
+
+const date = (opts: Partial<ConstructorParameters<typeof DatePrompt>[0]>) => {
+  const terminal = createTestTerminal();
+  const prompt = new DatePrompt({
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+    ...opts,
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+describe('DatePrompt', () => {
+  it('keeps the day within the month', async () => {
+    const { prompt, terminal } = date({ initialValue: new Date(2024, 0, 31) });
+    await terminal.sendKeys('right', 'up');
+    expect(prompt.text).toBe('2024-02-29');
+    await terminal.sendKeys('up');
+    expect(prompt.text).toBe('2024-03-29');
+    await terminal.sendKeys('down', 'left', 'up');
+    expect(prompt.text).toBe('2025-02-28');
+  });
+
+  it('rolls over into the next year', async () => {
+    const { prompt, answer, terminal } = date({
+      initialValue: new Date(2024, 11, 31),
+    });
+    await terminal.sendKeys('right', 'right', 'up');
+    expect(prompt.text).toBe('2025-01-01');
+    await terminal.sendKeys('left', 'down');
+    expect(prompt.text).toBe('2024-12-01');
+    await terminal.sendKeys('up', 'return');
+    expect(await answer).toEqual(new Date(2025, 0, 1));
+  });
+
+  it('clamps the value to the bounds', async () => {
+    const min = new Date(2024, 0, 1);
+    const max = new Date(2024, 11, 31);
+    const { prompt, terminal } = date({ initialValue: max, min, max });
+    await terminal.sendKeys('right', 'right', 'up');
+    expect(prompt.text).toBe('2024-12-31');
+    await terminal.sendKeys('left', 'left');
+    await terminal.type('2023');
+    expect(prompt.text).toBe('2024-01-01');
+    await terminal.sendKeys('right', 'right', 'down');
+    expect(prompt.text).toBe('2024-01-01');
+  });
+
+  it('starts within the bounds', () => {
+    const min = new Date(2024, 0, 1);
+    const { prompt } = date({ initialValue: new Date(2020, 5, 1), min });
+    expect(prompt.value).toEqual(min);
+  });
+});
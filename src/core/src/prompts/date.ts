@@ -0,0 +1,273 @@
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+
+export type DateSegment = 'year' | 'month' | 'day' | 'hour' | 'minute';
+
+interface DateOptions extends Omit<
+  PromptOptions<DatePrompt>,
+  'initialValue' | 'validate'
+> {
+  initialValue?: Date;
+  min?: Date;
+  max?: Date;
+  /**
+   * Layout of the input, where `YYYY`, `MM`, `DD`, `HH` and `mm` are
+   * replaced by the segments. `YYYY-MM-DD` by default.
+   */
+  format?: string;
+  validate?:
+    ((value: Date) => string | void | Promise<string | void>) | undefined;
+}
+
+const tokens: Record<string, DateSegment> = {
+  YYYY: 'year',
+  MM: 'month',
+  DD: 'day',
+  HH: 'hour',
+  mm: 'minute',
+};
+
+const widths: Record<DateSegment, number> = {
+  year: 4,
+  month: 2,
+  day: 2,
+  hour: 2,
+  minute: 2,
+};
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(year, month + 1, 0).getDate();
+
+function parseFormat(
+  format: string,
+): Array<{ segment?: DateSegment; text: string }> {
+  return format
+    .split(/(YYYY|MM|DD|HH|mm)/)
+    .filter(Boolean)
+    .map((text) => ({ segment: tokens[text], text }));
+}
+
+function getSegment(date: Date, segment: DateSegment): number {
+  switch (segment) {
+    case 'year':
+      return date.getFullYear();
+    case 'month':
+      return date.getMonth() + 1;
+    case 'day':
+      return date.getDate();
+    case 'hour':
+      return date.getHours();
+    case 'minute':
+      return date.getMinutes();
+  }
+}
+
+/** Returns a copy of `date` with the segment set, keeping the day in range. */
+function setSegment(date: Date, segment: DateSegment, value: number): Date {
+  const next = new Date(date);
+  if (segment === 'year' || segment === 'month') {
+    const year = segment === 'year' ? value : date.getFullYear();
+    const month = segment === 'month' ? value - 1 : date.getMonth();
+    next.setDate(1);
+    next.setFullYear(year, month);
+    next.setDate(
+      Math.min(
+        date.getDate(),
+        daysInMonth(next.getFullYear(), next.getMonth()),
+      ),
+    );
+  } else if (segment === 'day') {
+    next.setDate(value);
+  } else if (segment === 'hour') {
+    next.setHours(value);
+  } else {
+    next.setMinutes(value);
+  }
+  return next;
+}
+
+export default class DatePrompt extends Prompt<PromptEvents<Date>> {
+  declare value: Date;
+  min: Date | undefined;
+  max: Date | undefined;
+  /** Index of the focused segment. */
+  cursor = 0;
+  #format: Array<{ segment?: DateSegment; text: string }>;
+  // digits typed into the focused segment
+  #typed = '';
+
+  get segments(): DateSegment[] {
+    return this.#format.flatMap(({ segment }) => (segment ? [segment] : []));
+  }
+
+  get segment(): DateSegment {
+    return this.segments[this.cursor]!;
+  }
+
+  /** The formatted value, with the segments marked. */
+  get parts(): Array<{ text: string; segment?: DateSegment; active: boolean }> {
+    return this.#format.map(({ segment, text }) =>
+      segment
+        ? {
+            text: String(getSegment(this.value, segment)).padStart(
+              widths[segment],
+              '0',
+            ),
+            segment,
+            active: segment === this.segment,
+          }
+        : { text, active: false },
+    );
+  }
+
+  get text(): string {
+    return this.parts.map(({ text }) => text).join('');
+  }
+
+  /** Days of the month of the value, by week starting on Sunday. */
+  get weeks(): Array<Array<number | undefined>> {
+    const year = this.value.getFullYear();
+    const month = this.value.getMonth();
+    const days: Array<number | undefined> = Array.from(
+      { length: new Date(year, month, 1).getDay() },
+      () => undefined,
+    );
+    for (let day = 1; day <= daysInMonth(year, month); day++) days.push(day);
+    const weeks: Array<Array<number | undefined>> = [];
+    for (let i = 0; i < days.length; i += 7) weeks.push(days.slice(i, i + 7));
+    return weeks;
+  }
+
+  /** Whether the day of the month of the value is within the bounds. */
+  isDayInRange(day: number): boolean {
+    const date = setSegment(this.value, 'day', day);
+    const start = new Date(date).setHours(0, 0, 0, 0);
+    const end = new Date(date).setHours(23, 59, 59, 999);
+    return (
+      (!this.min || end >= this.min.getTime()) &&
+      (!this.max || start <= this.max.getTime())
+    );
+  }
+
+  protected override setValue(value: unknown): string | void {
+    const date =
+      value instanceof Date
+        ? value
+        : typeof value === 'string' || typeof value === 'number'
+          ? new Date(value)
+          : undefined;
+    if (!date || Number.isNaN(date.getTime())) return this.locale.expectedDate;
+    this.value = date;
+  }
+
+  private clamp(date: Date): Date {
+    if (this.min && date < this.min) return new Date(this.min);
+    if (this.max && date > this.max) return new Date(this.max);
+    return date;
+  }
+
+  private adjust(amount: number) {
+    const segment = this.segment;
+    // out of range values roll over into the next segment
+    this.value = this.clamp(
+      setSegment(this.value, segment, getSegment(this.value, segment) + amount),
+    );
+  }
+
+  private isValid(segment: DateSegment, value: number): boolean {
+    switch (segment) {
+      case 'year':
+        return value >= 1;
+      case 'month':
+        return value >= 1 && value <= 12;
+      case 'day':
+        return (
+          value >= 1 &&
+          value <= daysInMonth(this.value.getFullYear(), this.value.getMonth())
+        );
+      case 'hour':
+        return value <= 23;
+      case 'minute':
+        return value <= 59;
+    }
+  }
+
+  private type(digit: string) {
+    const segment = this.segment;
+    let typed = this.#typed + digit;
+    if (!this.isValid(segment, Number(typed))) typed = digit;
+    this.#typed = typed;
+    const complete = typed.length >= widths[segment];
+    if (
+      (segment !== 'year' || complete) &&
+      this.isValid(segment, Number(typed))
+    ) {
+      this.value = this.clamp(setSegment(this.value, segment, Number(typed)));
+    }
+    if (complete) this.move(1);
+  }
+
+  private move(direction: 1 | -1) {
+    this.#typed = '';
+    this.cursor = Math.min(
+      Math.max(this.cursor + direction, 0),
+      this.segments.length - 1,
+    );
+  }
+
+  constructor({
+    initialValue,
+    min,
+    max,
+    format,
+    validate,
+    ...opts
+  }: DateOptions) {
+    super(
+      {
+        ...opts,
+        initialValue,
+        validate: (value: Date) => {
+          if (min && value < min) return this.locale.dateTooEarly;
+          if (max && value > max) return this.locale.dateTooLate;
+          return validate?.(value);
+        },
+      },
+      false,
+    );
+    this.min = min;
+    this.max = max;
+    this.#format = parseFormat(format ?? 'YYYY-MM-DD');
+    const value = initialValue ? new Date(initialValue) : new Date();
+    if (initialValue === undefined) {
+      // start from a round time, the units not in the format stay at zero
+      const { segments } = this;
+      value.setHours(
+        segments.includes('hour') ? value.getHours() : 0,
+        segments.includes('minute') ? value.getMinutes() : 0,
+        0,
+        0,
+      );
+    }
+    this.value = this.clamp(value);
+
+    this.on('cursor', (key) => {
+      switch (key) {
+        case 'left':
+          return this.move(-1);
+        case 'right':
+          return this.move(1);
+        case 'up':
+          this.#typed = '';
+          return this.adjust(1);
+        case 'down':
+          this.#typed = '';
+          return this.adjust(-1);
+      }
+    });
+
+    this.on('key', (char, key) => {
+      if (key?.name === 'tab') this.move(key.shift ? -1 : 1);
+      else if (char && /^\d$/.test(char)) this.type(char);
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import EditorPrompt from './editor.js';
+
+const editor = (
+  opts: Partial<ConstructorParameters<typeof EditorPrompt>[0]>,
+) => {
+  const terminal = createTestTerminal();
+  const prompt = new EditorPrompt({
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+    ...opts,
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+describe('EditorPrompt', () => {
+  let tmp: string;
+  let stub: string;
+  beforeAll(() => {
+    tmp = mkdtempSync(join(tmpdir(), 'clack-editor-'));
+    // stands in for an editor: appends a line and records the file it edited
+    stub = join(tmp, 'stub-editor');
+    writeFileSync(
+      stub,
+      `#!/bin/sh\necho "$1" > "${join(tmp, 'edited')}"\necho " edited" >> "$1"\n`,
+    );
+    chmodSync(stub, 0o755);
+  });
+  afterAll(() => {
+    rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('reads the text back and removes the temporary file', async () => {
+    const { answer, terminal } = editor({
+      editor: stub,
+      extension: '.md',
+      initialValue: 'draft',
+    });
+    await terminal.sendKeys('return');
+    const edited = readFileSync(join(tmp, 'edited'), 'utf8').trim();
+    expect(edited).toMatch(/prompt\.md$/);
+    expect(existsSync(edited)).toBe(false);
+    expect(await answer).toBe('draft edited');
+  });
+
+  it('keeps the text when the editor cannot be run', async () => {
+    const { prompt, terminal } = editor({
+      editor: join(tmp, 'missing-editor'),
+      initialValue: 'draft',
+    });
+    await terminal.sendKeys('return');
+    expect(prompt.state).toBe('error');
+    expect(prompt.error).toMatch(/^Could not open .*missing-editor: /);
+    expect(prompt.value).toBe('draft');
+  });
+
+  it('keeps the text when the editor fails', async () => {
+    const { prompt, terminal } = editor({
+      editor: 'false',
+      initialValue: 'draft',
+    });
+    await terminal.sendKeys('return');
+    expect(prompt.state).toBe('error');
+    expect(prompt.error).toBe('false exited with code 1');
+    expect(prompt.value).toBe('draft');
+  });
+});
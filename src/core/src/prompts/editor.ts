@@ -0,0 +1,81 @@
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import process from 'process';
+import { cursor } from 'sisteransi';
+import { setRawMode } from '../utils.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+
+interface EditorOptions extends PromptOptions<EditorPrompt> {
+  /** Extension of the temporary file, for syntax highlighting. */
+  extension?: string;
+  /** Command to run, `$VISUAL` or `$EDITOR` by default. */
+  editor?: string;
+}
+
+const defaultEditor = () =>
+  process.env.VISUAL ||
+  process.env.EDITOR ||
+  (process.platform === 'win32' ? 'notepad' : 'vi');
+
+export default class EditorPrompt extends Prompt<PromptEvents<string>> {
+  editor: string;
+  extension: string;
+
+  get lines(): string[] {
+    return this.value ? this.value.split('\n') : [];
+  }
+
+  protected override setValue(value: unknown): string | void {
+    if (typeof value !== 'string') return this.locale.expectedText;
+    this.value = value;
+  }
+
+  /**
+   * Hands the terminal over to the editor until it exits, editing the value
+   * in a temporary file. Returns a problem when the editor failed.
+   */
+  private edit(): string | void {
+    const dir = mkdtempSync(join(tmpdir(), 'clack-'));
+    const file = join(dir, `prompt${this.extension}`);
+    const [command, ...args] = this.editor.trim().split(/\s+/);
+    try {
+      writeFileSync(file, this.value ?? '');
+      setRawMode(this.input, false);
+      this.output.write(cursor.show);
+      const result = spawnSync(command!, [...args, file], {
+        stdio: 'inherit',
+      });
+      this.output.write(cursor.hide);
+      setRawMode(this.input, true);
+      if (result.error) {
+        return this.locale.editorFailed(command!, result.error.message);
+      }
+      if (result.status !== 0) {
+        return this.locale.editorExited(command!, result.status);
+      }
+      // editors end the file with a newline
+      this.value = readFileSync(file, 'utf8').replace(/\r?\n$/, '');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  constructor({ extension, editor, ...opts }: EditorOptions) {
+    super(opts, false);
+    this.editor = editor ?? defaultEditor();
+    this.extension = extension ?? '.txt';
+    this.value = opts.initialValue ?? '';
+
+    this.on('key', (_char, key) => {
+      if (key?.name !== 'return') return;
+      const problem = this.edit();
+      if (problem) {
+        // keeps the prompt open, the text is not lost
+        this.error = problem;
+        this.state = 'error';
+      }
+    });
+  }
+}
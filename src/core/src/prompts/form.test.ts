@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import FormPrompt, { type FormField } from './form.js';
+
+const form = (
+  fields: Record<string, FormField>,
+  validate?: (values: Record<string, any>) => string | void,
+) => {
+  const terminal = createTestTerminal();
+  const prompt = new FormPrompt({
+    fields,
+    validate,
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+describe('FormPrompt', () => {
+  it('answers confirm fields yes by default', async () => {
+    const { answer, terminal } = form({
+      ok: { type: 'confirm', message: 'OK?' },
+    });
+    await terminal.sendKeys('return', 'return');
+    expect(await answer).toEqual({ ok: true });
+  });
+
+  it('moves the focus with Tab and Shift+Tab', async () => {
+    const { prompt, answer, terminal } = form({
+      a: { type: 'text', message: 'A' },
+      b: { type: 'text', message: 'B' },
+      c: { type: 'text', message: 'C' },
+    });
+    await terminal.sendKeys('tab');
+    expect(prompt.cursor).toBe(1);
+    await terminal.type('bee');
+    await terminal.sendKeys('shift-tab');
+    expect(prompt.cursor).toBe(0);
+    await terminal.sendKeys('shift-tab');
+    expect(prompt.cursor).toBe(2);
+    await terminal.sendKeys('ctrl-c');
+    await answer;
+    expect(prompt.value).toEqual({ a: undefined, b: 'bee', c: undefined });
+  });
+
+  it('is not submitted while a field is invalid', async () => {
+    const { prompt, answer, terminal } = form({
+      name: {
+        type: 'text',
+        message: 'Name',
+        validate: (value) => (value ? undefined : 'Required'),
+      },
+    });
+    await terminal.sendKeys('return', 'return');
+    expect(prompt.state).not.toBe('submit');
+    expect(prompt.active?.error).toBe('Required');
+    await terminal.type('ann');
+    await terminal.sendKeys('return', 'return');
+    expect(await answer).toEqual({ name: 'ann' });
+  });
+
+  it('checks the values together once every field is valid', async () => {
+    const { prompt, answer, terminal } = form(
+      {
+        password: { type: 'password', message: 'Password' },
+        again: { type: 'password', message: 'Again' },
+      },
+      ({ password, again }) =>
+        password === again ? undefined : 'The passwords differ',
+    );
+    await terminal.type('abc');
+    await terminal.sendKeys('return');
+    await terminal.type('abd');
+    await terminal.sendKeys('return', 'return');
+    expect(prompt.state).toBe('error');
+    expect(prompt.error).toBe('The passwords differ');
+    // answered fields are edited again once focused
+    await terminal.sendKeys('shift-tab', 'shift-tab', 'backspace');
+    await terminal.type('c');
+    await terminal.sendKeys('return', 'return', 'return');
+    expect(await answer).toEqual({ password: 'abc', again: 'abc' });
+  });
+});
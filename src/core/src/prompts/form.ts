@@ -0,0 +1,239 @@
+import type { Key } from 'readline';
+import { PassThrough, Writable } from 'stream';
+import ConfirmPrompt from './confirm.js';
+import NumberPrompt from './number.js';
+import PasswordPrompt from './password.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+import SelectPrompt from './select.js';
+import TextPrompt from './text.js';
+
+interface BaseField<Value> {
+  message: string;
+  initialValue?: Value;
+  validate?: (value: Value) => string | void | Promise<string | void>;
+}
+
+export type FormField =
+  | (BaseField<string> & {
+      type: 'text';
+      placeholder?: string;
+      defaultValue?: string;
+    })
+  | (BaseField<string> & { type: 'password'; mask?: string })
+  | (BaseField<number> & {
+      type: 'number';
+      defaultValue?: number;
+      min?: number;
+      max?: number;
+      step?: number;
+      integer?: boolean;
+    })
+  | (BaseField<boolean> & {
+      type: 'confirm';
+      active?: string;
+      inactive?: string;
+    })
+  | (BaseField<any> & {
+      type: 'select';
+      options: Array<{ value: any; label?: string; hint?: string }>;
+    });
+
+interface FormOptions extends Omit<
+  PromptOptions<FormPrompt>,
+  'initialValue' | 'validate'
+> {
+  fields: Record<string, FormField>;
+  initialValue?: Record<string, unknown>;
+  /** Checks the values together, once every field is valid. */
+  validate?:
+    | ((values: Record<string, any>) => string | void | Promise<string | void>)
+    | undefined;
+}
+
+const discard = () =>
+  new Writable({ write: (_chunk, _encoding, done) => done() });
+
+/**
+ * Edits several fields in a single frame. The focused field is edited by the
+ * prompt of its type, which reads the keys forwarded by the form.
+ */
+export default class FormPrompt extends Prompt<
+  PromptEvents<Record<string, any>>
+> {
+  declare value: Record<string, any>;
+  fields: Array<{
+    name: string;
+    field: FormField;
+    /** Set once the prompt of the field validated and submitted it. */
+    done: boolean;
+  }>;
+  /** Index of the focused field. */
+  cursor = 0;
+  /** Prompt of the focused field. */
+  active: Prompt | undefined;
+  #abort: AbortController | undefined;
+  #keys: PassThrough | undefined;
+  // set once the last field is submitted, the form is submitted next
+  #complete = false;
+
+  protected override get hasDefault(): boolean {
+    return Object.values(this.value).every((value) => value !== undefined);
+  }
+
+  // typed characters go to the focused field
+  protected override get bindsCharacters(): boolean {
+    return false;
+  }
+
+  protected override isSubmitKey(): boolean {
+    return this.#complete;
+  }
+
+  protected override setValue(value: unknown): string | void {
+    if (typeof value !== 'object' || value === null) {
+      return this.locale.expectedFieldValues;
+    }
+    this.value = { ...this.value, ...value };
+  }
+
+  protected override render(): void {
+    // the first field is edited once the form is shown
+    if (!this.active) this.focus(this.cursor);
+    super.render();
+  }
+
+  protected override close(): void {
+    this.#abort?.abort();
+    super.close();
+  }
+
+  private createPrompt(field: FormField, initialValue: any): Prompt {
+    const opts = {
+      message: field.message,
+      input: this.#keys,
+      // fields are drawn by the form
+      output: discard(),
+      render: () => this.render(),
+      signal: this.#abort!.signal,
+      nonInteractive: false,
+      keybindings: this.keybindings,
+      locale: this.locale,
+      validate: field.validate as PromptOptions<Prompt>['validate'],
+    };
+    switch (field.type) {
+      case 'text':
+        return new TextPrompt({
+          ...opts,
+          placeholder: field.placeholder,
+          defaultValue: field.defaultValue,
+          initialValue,
+        });
+      case 'password':
+        return new PasswordPrompt({ ...opts, mask: field.mask, initialValue });
+      case 'number':
+        return new NumberPrompt({
+          ...opts,
+          defaultValue: field.defaultValue,
+          min: field.min,
+          max: field.max,
+          step: field.step,
+          integer: field.integer,
+          initialValue,
+        });
+      case 'confirm':
+        return new ConfirmPrompt({
+          ...opts,
+          active: field.active ?? this.locale.yes,
+          inactive: field.inactive ?? this.locale.no,
+          initialValue,
+        });
+      case 'select':
+        return new SelectPrompt({
+          ...opts,
+          options: field.options,
+          initialValue,
+        });
+    }
+  }
+
+  /** Moves the focus, the field left keeps its value. */
+  private focus(index: number) {
+    this.#abort?.abort();
+    this.cursor = (index + this.fields.length) % this.fields.length;
+    const entry = this.fields[this.cursor]!;
+    entry.done = false;
+    this.#abort = new AbortController();
+    this.#keys = new PassThrough();
+    const prompt = this.createPrompt(entry.field, this.value[entry.name]);
+    this.active = prompt;
+    prompt.on('submit', (value) => {
+      this.value = { ...this.value, [entry.name]: value };
+      entry.done = true;
+      this.next();
+    });
+    void prompt.prompt();
+  }
+
+  /** Focuses the next field left to answer, or completes the form. */
+  private next() {
+    const after = this.fields.findIndex(
+      ({ done }, i) => i > this.cursor && !done,
+    );
+    const index =
+      after === -1 ? this.fields.findIndex(({ done }) => !done) : after;
+    if (index === -1) this.#complete = true;
+    else this.focus(index);
+  }
+
+  constructor({ fields, initialValue, validate, ...opts }: FormOptions) {
+    super(
+      {
+        ...opts,
+        validate: (values: Record<string, any>) => {
+          this.#complete = false;
+          return validate?.(values);
+        },
+      },
+      false,
+    );
+    this.fields = Object.entries(fields).map(([name, field]) => ({
+      name,
+      field,
+      done: false,
+    }));
+    this.value = Object.fromEntries(
+      this.fields.map(({ name, field }) => [
+        name,
+        initialValue?.[name] ??
+          field.initialValue ??
+          // confirms are answered yes by default, like confirm()
+          (field.type === 'confirm' ? true : undefined),
+      ]),
+    );
+
+    this.on('key', (char, key?: Key) => {
+      const actions = this.keyActions(char, key);
+      if (!key || actions.includes('cancel')) return;
+      const entry = this.fields[this.cursor]!;
+      const usesArrows =
+        entry.field.type === 'number' || entry.field.type === 'select';
+      const move = actions.find(
+        (action) => action === 'up' || action === 'down',
+      );
+      if (key.name === 'tab') {
+        this.focus(this.cursor + (key.shift ? -1 : 1));
+      } else if (move && !usesArrows) {
+        this.focus(this.cursor + (move === 'up' ? -1 : 1));
+      } else if (entry.done) {
+        // submitting an answered field moves on to the fields left
+        if (actions.includes('submit')) this.next();
+      } else {
+        const prompt = this.active!;
+        this.#keys!.write(key.sequence ?? '');
+        if (!entry.done) {
+          this.value = { ...this.value, [entry.name]: prompt.value };
+        }
+      }
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import Prompt, { type PromptOptions } from './prompt.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 interface GroupMultiSelectOptions<T extends { value: any }>
   extends PromptOptions<GroupMultiSelectPrompt<T>> {
@@ -10,9 +10,10 @@ interface GroupMultiSelectOptions<T extends { value: any }>
 }
 export default class GroupMultiSelectPrompt<
   T extends { value: any },
-> extends Prompt {
+> extends Prompt<PromptEvents<Array<T['value']>>> {
   options: Array<T & { group: string | boolean }>;
   cursor: number = 0;
+  #hasInitialValues: boolean;
   #selectableGroups: boolean;
 
   getGroupItems(group: string): T[] {
@@ -47,6 +48,24 @@ export default class GroupMultiSelectPrompt<
     }
   }
 
+  protected override get hasDefault(): boolean {
+    return this.#hasInitialValues;
+  }
+
+  protected override setValue(values: Array<T['value']>): string | void {
+    if (!Array.isArray(values)) return this.locale.expectedOptions;
+    const unknown = values.find(
+      (value) =>
+        !this.options.some(
+          (option) => option.group !== true && option.value === value,
+        ),
+    );
+    if (unknown !== undefined) {
+      return this.locale.unknownOption(String(unknown));
+    }
+    this.value = [...values];
+  }
+
   constructor(opts: GroupMultiSelectOptions<T>) {
     super(opts, false);
     const { options } = opts;
@@ -56,6 +75,7 @@ export default class GroupMultiSelectPrompt<
       ...option.map((opt) => ({ ...opt, group: key })),
     ]) as any;
     this.value = [...(opts.initialValues ?? [])];
+    this.#hasInitialValues = opts.initialValues !== undefined;
     this.cursor = Math.max(
       this.options.findIndex(({ value }) => value === opts.cursorAt),
       this.#selectableGroups ? 0 : 1,
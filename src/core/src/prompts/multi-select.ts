@@ -1,4 +1,4 @@
-import Prompt, { type PromptOptions } from './prompt.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 interface MultiSelectOptions<T extends { value: any }>
   extends PromptOptions<MultiSelectPrompt<T>> {
@@ -7,11 +7,12 @@ interface MultiSelectOptions<T extends { value: any }>
   required?: boolean;
   cursorAt?: T['value'];
 }
-export default class MultiSelectPrompt<
-  T extends { value: any },
-> extends Prompt {
+export default class MultiSelectPrompt<T extends { value: any }> extends Prompt<
+  PromptEvents<Array<T['value']>>
+> {
   options: T[];
   cursor: number = 0;
+  #hasInitialValues: boolean;
 
   private get _value() {
     return this.options[this.cursor]!.value;
@@ -29,17 +30,33 @@ export default class MultiSelectPrompt<
       : [...this.value, this._value];
   }
 
+  protected override get hasDefault(): boolean {
+    return this.#hasInitialValues;
+  }
+
+  protected override setValue(values: Array<T['value']>): string | void {
+    if (!Array.isArray(values)) return this.locale.expectedOptions;
+    const unknown = values.find(
+      (value) => !this.options.some((option) => option.value === value),
+    );
+    if (unknown !== undefined) {
+      return this.locale.unknownOption(String(unknown));
+    }
+    this.value = [...values];
+  }
+
   constructor(opts: MultiSelectOptions<T>) {
     super(opts, false);
 
     this.options = opts.options;
     this.value = [...(opts.initialValues ?? [])];
+    this.#hasInitialValues = opts.initialValues !== undefined;
     this.cursor = Math.max(
       this.options.findIndex(({ value }) => value === opts.cursorAt),
       0,
     );
-    this.on('key', (char) => {
-      if (char === 'a') {
+    this.on('action', (action) => {
+      if (action === 'toggleAll') {
         this.toggleAll();
       }
     });
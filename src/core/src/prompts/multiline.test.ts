@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import MultilineTextPrompt from './multiline.js';
+
+const multiline = (
+  opts: Partial<ConstructorParameters<typeof MultilineTextPrompt>[0]>,
+) => {
+  const terminal = createTestTerminal();
+  const prompt = new MultilineTextPrompt({
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+    ...opts,
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+describe('MultilineTextPrompt', () => {
+  it('inserts newlines on return and submits on Ctrl+D', async () => {
+    const { prompt, answer, terminal } = multiline({});
+    await terminal.type('one');
+    await terminal.sendKeys('return');
+    await terminal.type('two');
+    expect(prompt.state).toBe('active');
+    expect(prompt.position).toEqual({ line: 1, column: 3 });
+    await terminal.sendKeys('ctrl-d');
+    expect(await answer).toBe('one\ntwo');
+  });
+
+  it('submits on Alt+Enter when asked to', async () => {
+    const { prompt, answer, terminal } = multiline({ submitKey: 'alt-enter' });
+    await terminal.type('one');
+    await terminal.sendKeys('ctrl-d', 'return');
+    await terminal.type('two');
+    expect(prompt.state).toBe('active');
+    // Alt+Enter
+    await terminal.sendKeys('\x1b\r');
+    expect(await answer).toBe('one\ntwo');
+  });
+
+  it('stops adding lines at the limit', async () => {
+    const { prompt, answer, terminal } = multiline({ maxLines: 2 });
+    await terminal.sendKeys('return', 'return', 'return');
+    expect(prompt.lines).toEqual(['', '']);
+    await terminal.sendKeys('up');
+    await terminal.type('a');
+    await terminal.sendKeys('ctrl-d');
+    expect(await answer).toBe('a\n');
+  });
+});
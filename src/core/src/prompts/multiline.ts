@@ -0,0 +1,146 @@
+import type { Key } from 'readline';
+import color from 'picocolors';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+
+export interface MultilineTextOptions extends PromptOptions<MultilineTextPrompt> {
+  placeholder?: string;
+  defaultValue?: string;
+  /** Chord submitting the text, since Enter inserts a newline. */
+  submitKey?: 'ctrl-d' | 'alt-enter';
+  maxLines?: number;
+}
+
+export default class MultilineTextPrompt extends Prompt<PromptEvents<string>> {
+  valueWithCursor = '';
+  submitKey: 'ctrl-d' | 'alt-enter';
+  maxLines: number;
+  #defaultValue: string | undefined;
+
+  get cursor(): number {
+    return this._cursor;
+  }
+
+  get lines(): string[] {
+    return this.value.split('\n');
+  }
+
+  /** Line and column of the cursor. */
+  get position(): { line: number; column: number } {
+    const before = this.value.slice(0, this.cursor).split('\n');
+    return { line: before.length - 1, column: before.at(-1)!.length };
+  }
+
+  protected override get bindsCharacters(): boolean {
+    return false;
+  }
+
+  protected override get hasDefault(): boolean {
+    return super.hasDefault || this.#defaultValue !== undefined;
+  }
+
+  protected override isSubmitKey(
+    _char: string | undefined,
+    key?: Key,
+  ): boolean {
+    if (this.submitKey === 'alt-enter') {
+      return !!key?.meta && (key.name === 'return' || key.name === 'enter');
+    }
+    return !!key?.ctrl && key.name === 'd';
+  }
+
+  protected override setValue(value: unknown): string | void {
+    if (typeof value !== 'string') return this.locale.expectedText;
+    this.value = value;
+    this._cursor = value.length;
+    this.updateValueWithCursor();
+  }
+
+  private insert(text: string) {
+    this.value =
+      this.value.slice(0, this.cursor) + text + this.value.slice(this.cursor);
+    this._cursor += text.length;
+  }
+
+  private remove(from: number, to: number) {
+    if (from < 0 || to > this.value.length) return;
+    this.value = this.value.slice(0, from) + this.value.slice(to);
+    this._cursor = from;
+  }
+
+  /** Moves the cursor to the given line, keeping its column when possible. */
+  private moveToLine(line: number) {
+    const { lines } = this;
+    if (line < 0 || line >= lines.length) return;
+    const column = Math.min(this.position.column, lines[line]!.length);
+    this._cursor =
+      lines.slice(0, line).reduce((sum, ln) => sum + ln.length + 1, 0) + column;
+  }
+
+  private updateValueWithCursor() {
+    const s1 = this.value.slice(0, this.cursor);
+    const s2 = this.value.slice(this.cursor);
+    const [current, ...rest] = s2.split('\n');
+    // the cursor at the end of a line is drawn after its last character
+    const cursor = current
+      ? `${color.inverse(current[0]!)}${current.slice(1)}`
+      : color.inverse(color.hidden('_'));
+    this.valueWithCursor = [`${s1}${cursor}`, ...rest].join('\n');
+  }
+
+  constructor({ submitKey, maxLines, ...opts }: MultilineTextOptions) {
+    super(opts, false);
+    this.submitKey = submitKey ?? 'ctrl-d';
+    this.maxLines = maxLines ?? Infinity;
+    this.#defaultValue = opts.defaultValue;
+    this.value = opts.initialValue ?? '';
+    this._cursor = this.value.length;
+    this.updateValueWithCursor();
+
+    this.on('key', (_char, key?: Key) => {
+      if (!key || this.isSubmitKey(undefined, key)) return;
+      const { line } = this.position;
+      switch (key.name) {
+        case 'return':
+        case 'enter':
+          if (this.lines.length < this.maxLines) this.insert('\n');
+          break;
+        case 'backspace':
+          this.remove(this.cursor - 1, this.cursor);
+          break;
+        case 'delete':
+          this.remove(this.cursor, this.cursor + 1);
+          break;
+        case 'left':
+          this._cursor = Math.max(this.cursor - 1, 0);
+          break;
+        case 'right':
+          this._cursor = Math.min(this.cursor + 1, this.value.length);
+          break;
+        case 'up':
+          this.moveToLine(line - 1);
+          break;
+        case 'down':
+          this.moveToLine(line + 1);
+          break;
+        case 'home':
+          this._cursor -= this.position.column;
+          break;
+        case 'end':
+          this._cursor += this.lines[line]!.length - this.position.column;
+          break;
+        default: {
+          const text = key.sequence ?? '';
+          if (!key.ctrl && !key.meta && text >= ' ') this.insert(text);
+        }
+      }
+      this.updateValueWithCursor();
+    });
+
+    this.on('finalize', () => {
+      if (!this.value) {
+        this.value = opts.defaultValue ?? '';
+      }
+      this.valueWithCursor = this.value;
+    });
+  }
+}
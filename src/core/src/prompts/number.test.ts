@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import NumberPrompt from './number.js';
+
+const number = (
+  opts: Partial<ConstructorParameters<typeof NumberPrompt>[0]>,
+) => {
+  const terminal = createTestTerminal();
+  const prompt = new NumberPrompt({
+    input: terminal.input,
+    output: terminal.output,
+    render: () => '',
+    ...opts,
+  });
+  return { prompt, answer: prompt.prompt(), terminal };
+};
+
+describe('NumberPrompt', () => {
+  it('steps without floating point noise', async () => {
+    const { prompt, answer, terminal } = number({
+      initialValue: 0.2,
+      step: 0.1,
+    });
+    await terminal.sendKeys('up');
+    expect(prompt.userInput).toBe('0.3');
+    await terminal.sendKeys('up', 'down', 'down', 'return');
+    expect(await answer).toBe(0.2);
+  });
+
+  it('only lets numbers be typed', async () => {
+    const { prompt, answer, terminal } = number({});
+    await terminal.type('-a1-b.5.');
+    expect(prompt.userInput).toBe('-1.5');
+    await terminal.sendKeys('return');
+    expect(await answer).toBe(-1.5);
+  });
+
+  it('only lets whole numbers be typed when integer', async () => {
+    const { prompt, answer, terminal } = number({ integer: true });
+    await terminal.type('1.5');
+    expect(prompt.userInput).toBe('15');
+    await terminal.sendKeys('return');
+    expect(await answer).toBe(15);
+  });
+
+  it('clamps the steps to the bounds', async () => {
+    const { prompt, terminal } = number({
+      initialValue: 8,
+      min: 0,
+      max: 10,
+      step: 5,
+    });
+    await terminal.sendKeys('up');
+    expect(prompt.value).toBe(10);
+    await terminal.sendKeys('down', 'down', 'down');
+    expect(prompt.value).toBe(0);
+  });
+
+  it('rejects numbers out of the bounds', async () => {
+    const { prompt, answer, terminal } = number({ min: 0, max: 10 });
+    await terminal.type('20');
+    await terminal.sendKeys('return');
+    expect(prompt.state).toBe('error');
+    expect(prompt.error).toContain('10');
+    await terminal.sendKeys('backspace', 'return');
+    expect(await answer).toBe(2);
+  });
+});
@@ -0,0 +1,127 @@
+import { withCursor } from '../utils.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+
+interface NumberOptions extends Omit<
+  PromptOptions<NumberPrompt>,
+  'initialValue' | 'validate'
+> {
+  initialValue?: number;
+  defaultValue?: number;
+  min?: number;
+  max?: number;
+  /** Amount added or removed by the up and down arrows, 1 by default. */
+  step?: number;
+  /** Only accepts whole numbers. */
+  integer?: boolean;
+  validate?:
+    ((value: number) => string | void | Promise<string | void>) | undefined;
+}
+
+const decimals = (n: number) => String(n).split('.')[1]?.length ?? 0;
+
+export default class NumberPrompt extends Prompt<
+  PromptEvents<number | undefined>
+> {
+  valueWithCursor = '';
+  min: number;
+  max: number;
+  step: number;
+  integer: boolean;
+  #defaultValue: number | undefined;
+  #pattern: RegExp;
+  // the last accepted text, restored when a keystroke is rejected
+  #text = '';
+  #textCursor = 0;
+
+  get cursor(): number {
+    return this._cursor;
+  }
+
+  protected override get hasDefault(): boolean {
+    return super.hasDefault || this.#defaultValue !== undefined;
+  }
+
+  protected override setValue(value: unknown): string | void {
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      return this.locale.expectedNumber;
+    }
+    if (!this.#pattern.test(String(value))) return this.locale.expectedNumber;
+    super.setValue(String(value));
+  }
+
+  private increment(direction: 1 | -1) {
+    const current =
+      typeof this.value === 'number' && !Number.isNaN(this.value)
+        ? this.value
+        : (this.#defaultValue ?? Math.max(Math.min(0, this.max), this.min));
+    const next = Math.min(
+      Math.max(current + direction * this.step, this.min),
+      this.max,
+    );
+    // avoids floating point noise such as 0.30000000000000004
+    const precision = Math.max(decimals(this.step), decimals(current));
+    this.setUserInput(String(Number(next.toFixed(precision))));
+  }
+
+  constructor({
+    initialValue,
+    min,
+    max,
+    step,
+    integer,
+    validate,
+    ...opts
+  }: NumberOptions) {
+    const check = (value: number | undefined) => {
+      const number = value ?? opts.defaultValue;
+      if (number === undefined || Number.isNaN(number)) {
+        return this.locale.enterNumber;
+      }
+      if (integer && !Number.isInteger(number)) {
+        return this.locale.enterWholeNumber;
+      }
+      if (min !== undefined && number < min) {
+        return this.locale.numberTooSmall(min);
+      }
+      if (max !== undefined && number > max) {
+        return this.locale.numberTooLarge(max);
+      }
+      return validate?.(number);
+    };
+    super({
+      ...opts,
+      initialValue:
+        initialValue === undefined ? undefined : String(initialValue),
+      validate: check,
+    });
+    this.min = min ?? -Infinity;
+    this.max = max ?? Infinity;
+    this.step = step ?? 1;
+    this.integer = integer ?? false;
+    this.#defaultValue = opts.defaultValue;
+    this.#pattern = this.integer ? /^-?\d*$/ : /^-?\d*\.?\d*$/;
+
+    this.on('value', () => {
+      if (!this.#pattern.test(this.userInput)) {
+        this.setUserInput(this.#text, this.#textCursor);
+        return;
+      }
+      this.#text = this.userInput;
+      this.#textCursor = this._cursor;
+      this.value = this.userInput === '' ? undefined : Number(this.userInput);
+      this.valueWithCursor = withCursor(this.userInput, this.cursor);
+    });
+
+    this.on('cursor', (key) => {
+      if (key === 'up') this.increment(1);
+      if (key === 'down') this.increment(-1);
+    });
+
+    this.on('finalize', () => {
+      if (this.value === undefined) {
+        this.value = this.#defaultValue;
+      }
+      this.valueWithCursor = String(this.value ?? '');
+    });
+  }
+}
@@ -1,10 +1,10 @@
-import color from 'picocolors';
-import Prompt, { type PromptOptions } from './prompt.js';
+import { withCursor } from '../utils.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 interface PasswordOptions extends PromptOptions<PasswordPrompt> {
   mask?: string;
 }
-export default class PasswordPrompt extends Prompt {
+export default class PasswordPrompt extends Prompt<PromptEvents<string>> {
   valueWithCursor = '';
   private _mask = '•';
   get cursor(): number {
@@ -21,13 +21,7 @@ export default class PasswordPrompt extends Prompt {
       this.valueWithCursor = this.masked;
     });
     this.on('value', () => {
-      if (this.cursor >= this.value.length) {
-        this.valueWithCursor = `${this.masked}${color.inverse(color.hidden('_'))}`;
-      } else {
-        const s1 = this.masked.slice(0, this.cursor);
-        const s2 = this.masked.slice(this.cursor);
-        this.valueWithCursor = `${s1}${color.inverse(s2[0])}${s2.slice(1)}`;
-      }
+      this.valueWithCursor = withCursor(this.masked, this.cursor);
     });
   }
 }
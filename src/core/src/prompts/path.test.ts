@@ -0,0 +1,77 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Writable } from 'node:stream';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import PathPrompt from './path.js';
+
+const discard = () =>
+  new Writable({ write: (_chunk, _encoding, done) => done() });
+
+// answers the prompt with the path, as if the user submitted it
+const answer = (
+  path: string,
+  opts: Partial<ConstructorParameters<typeof PathPrompt>[0]> = {},
+) =>
+  new PathPrompt({
+    output: discard(),
+    nonInteractive: true,
+    initialValue: path,
+    render: () => '',
+    ...opts,
+  }).prompt();
+
+describe('PathPrompt', () => {
+  let tmp: string;
+  let root: string;
+  beforeAll(() => {
+    tmp = mkdtempSync(join(tmpdir(), 'clack-path-'));
+    root = join(tmp, 'root');
+    mkdirSync(join(root, 'src'), { recursive: true });
+    writeFileSync(join(root, 'config.json'), '{}');
+    mkdirSync(join(tmp, 'outside'));
+    writeFileSync(join(tmp, 'outside', 'secret'), '');
+    symlinkSync(join(tmp, 'outside'), join(root, 'escape'));
+    symlinkSync(join(root, 'src'), join(root, 'inner'));
+  });
+  afterAll(() => rmSync(tmp, { recursive: true, force: true }));
+
+  it('accepts paths within the root', async () => {
+    expect(await answer('config.json', { root })).toBe('config.json');
+    expect(await answer('inner', { root })).toBe('inner');
+  });
+
+  it('rejects links pointing outside the root', async () => {
+    await expect(answer('escape/secret', { root })).rejects.toThrow(
+      'The path must be inside',
+    );
+    await expect(answer('../root/escape', { root })).rejects.toThrow(
+      'The path must be inside',
+    );
+  });
+
+  it('checks paths that do not exist yet against their parent', async () => {
+    expect(await answer('inner/new.txt', { root, mustExist: false })).toBe(
+      'inner/new.txt',
+    );
+    await expect(
+      answer('escape/new.txt', { root, mustExist: false }),
+    ).rejects.toThrow('The path must be inside');
+  });
+
+  it('only accepts files with the extensions', async () => {
+    const extensions = ['.json'];
+    expect(await answer('config.json', { root, extensions })).toBe(
+      'config.json',
+    );
+    await expect(answer('src', { root, extensions })).rejects.toThrow(
+      'The file must end with .json',
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { type Dirent, readdirSync, realpathSync, statSync } from 'fs';
+import { homedir } from 'os';
+import {
+  basename,
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from 'path';
+import process from 'process';
+import { withCursor } from '../utils.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
+
+interface PathOptions extends Omit<
+  PromptOptions<PathPrompt>,
+  'initialValue' | 'validate'
+> {
+  initialValue?: string;
+  /** Directory paths are resolved against, and must stay within. */
+  root?: string;
+  onlyDirectories?: boolean;
+  /** Extensions of the files that can be picked, such as `.json`. */
+  extensions?: string[];
+  /** Whether the path must exist, true by default. */
+  mustExist?: boolean;
+  validate?:
+    ((value: string) => string | void | Promise<string | void>) | undefined;
+}
+
+const isDirectory = (dir: string, entry: Dirent) => {
+  if (entry.isDirectory()) return true;
+  if (!entry.isSymbolicLink()) return false;
+  try {
+    return statSync(join(dir, entry.name)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Resolves the symbolic links of a path. The part that does not exist yet is
+ * kept as is, after the real path of its closest existing parent.
+ */
+const realPath = (path: string): string => {
+  try {
+    return realpathSync(path);
+  } catch {
+    const parent = dirname(path);
+    if (parent === path) return path;
+    return join(realPath(parent), basename(path));
+  }
+};
+
+export default class PathPrompt extends Prompt<PromptEvents<string>> {
+  valueWithCursor = '';
+  /** Entries completing the typed path, directories end with a slash. */
+  candidates: string[] = [];
+  /** Index of the highlighted candidate. */
+  cursor = 0;
+  root: string | undefined;
+  onlyDirectories: boolean;
+  extensions: string[] | undefined;
+
+  /** Resolves a typed path against the root, expanding `~`. */
+  resolve(path: string): string {
+    if (path === '~' || path.startsWith('~/')) {
+      return join(homedir(), path.slice(1));
+    }
+    return resolve(this.root ?? process.cwd(), path);
+  }
+
+  private isWithinRoot(path: string): boolean {
+    if (!this.root) return true;
+    // links inside the root may point outside of it
+    const rel = relative(realPath(resolve(this.root)), realPath(path));
+    return !rel.startsWith('..') && !isAbsolute(rel);
+  }
+
+  private matchesExtension(name: string): boolean {
+    return !this.extensions || this.extensions.includes(extname(name));
+  }
+
+  private updateCandidates() {
+    const input = this.userInput;
+    const slash = input.lastIndexOf('/') + 1;
+    const dir = input.slice(0, slash);
+    const prefix = input.slice(slash);
+    const path = this.resolve(dir || '.');
+    let entries: Dirent[] = [];
+    if (this.isWithinRoot(path)) {
+      try {
+        entries = readdirSync(path, { withFileTypes: true });
+      } catch {
+        // not a readable directory, there is nothing to complete
+      }
+    }
+    this.candidates = entries
+      .filter(({ name }) => name.startsWith(prefix))
+      // hidden entries are only listed once a dot is typed
+      .filter(({ name }) => prefix.startsWith('.') || !name.startsWith('.'))
+      .map((entry) => ({
+        name: entry.name,
+        directory: isDirectory(path, entry),
+      }))
+      .filter(
+        ({ name, directory }) =>
+          directory || (!this.onlyDirectories && this.matchesExtension(name)),
+      )
+      .sort(
+        (a, b) =>
+          Number(b.directory) - Number(a.directory) ||
+          a.name.localeCompare(b.name),
+      )
+      .map(({ name, directory }) => `${dir}${name}${directory ? '/' : ''}`);
+    this.cursor = 0;
+  }
+
+  protected override onTab(): void {
+    const candidate = this.candidates[this.cursor];
+    if (candidate) this.setUserInput(candidate);
+  }
+
+  protected override setValue(value: unknown): string | void {
+    if (typeof value !== 'string') return this.locale.expectedPath;
+    super.setValue(value);
+  }
+
+  constructor({
+    root,
+    onlyDirectories,
+    extensions,
+    mustExist,
+    validate,
+    ...opts
+  }: PathOptions) {
+    const check = (value: string) => {
+      if (!value) return this.locale.enterPath;
+      const path = this.resolve(value);
+      if (!this.isWithinRoot(path)) return this.locale.pathOutsideRoot(root!);
+      let stats;
+      try {
+        stats = statSync(path);
+      } catch {
+        if (mustExist ?? true) return this.locale.pathNotFound;
+      }
+      if (stats && onlyDirectories && !stats.isDirectory()) {
+        return this.locale.pathNotDirectory;
+      }
+      // a file is expected when extensions are given
+      if (
+        extensions &&
+        !onlyDirectories &&
+        (stats?.isDirectory() || !this.matchesExtension(path))
+      ) {
+        return this.locale.pathExtension(extensions);
+      }
+      return validate?.(value);
+    };
+    super({ ...opts, validate: check });
+    this.root = root;
+    this.onlyDirectories = onlyDirectories ?? false;
+    this.extensions = extensions;
+
+    this.on('value', () => {
+      this.valueWithCursor = withCursor(this.userInput, this._cursor);
+      this.updateCandidates();
+    });
+
+    this.on('cursor', (key) => {
+      if (this.candidates.length === 0) return;
+      if (key === 'up') {
+        this.cursor =
+          this.cursor === 0 ? this.candidates.length - 1 : this.cursor - 1;
+      } else if (key === 'down') {
+        this.cursor =
+          this.cursor === this.candidates.length - 1 ? 0 : this.cursor + 1;
+      }
+    });
+
+    this.on('finalize', () => {
+      this.valueWithCursor = this.value;
+    });
+
+    this.updateCandidates();
+  }
+}
@@ -0,0 +1,242 @@
+import { PassThrough, Writable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../../testing/index.js';
+import MultiSelectPrompt from './multi-select.js';
+import {
+  NonInteractiveError,
+  isCancel,
+  withPresetAnswer,
+  withSignal,
+} from './prompt.js';
+import SelectPrompt from './select.js';
+import TextPrompt from './text.js';
+
+const discard = () =>
+  new Writable({ write: (_chunk, _encoding, done) => done() });
+
+describe('non-interactive mode', () => {
+  it('reads keys from streams other than stdin', async () => {
+    const input = new PassThrough();
+    const answer = new TextPrompt({
+      input,
+      output: discard(),
+      render: () => '',
+    }).prompt();
+    input.write('hi');
+    input.write('\r');
+    expect(await answer).toBe('hi');
+  });
+
+  it('is forced by the option', async () => {
+    const answer = new TextPrompt({
+      input: new PassThrough(),
+      output: discard(),
+      nonInteractive: true,
+      defaultValue: 'default',
+      render: () => '',
+    }).prompt();
+    expect(await answer).toBe('default');
+  });
+
+  it('rejects presets in the language of the prompt', async () => {
+    const preset = { value: 'c', consumed: false, edit: false };
+    const answer = withPresetAnswer(preset, () =>
+      new SelectPrompt({
+        message: 'Pick',
+        input: new PassThrough(),
+        output: discard(),
+        nonInteractive: true,
+        options: [{ value: 'a' }],
+        locale: { unknownOption: (value) => `Option inconnue : ${value}` },
+        render: () => '',
+      }).prompt(),
+    );
+    await expect(answer).rejects.toThrow(
+      'Cannot answer "Pick" in non-interactive mode: Option inconnue : c',
+    );
+  });
+
+  it('explains why a prompt cannot be answered in plain text', async () => {
+    const answer = new MultiSelectPrompt({
+      message: 'Pick',
+      input: new PassThrough(),
+      output: discard(),
+      nonInteractive: true,
+      options: [{ value: 'a' }],
+      initialValues: [],
+      validate: () => '\x1b[31mPick one\x1b[39m\n\x1b[2mPress space\x1b[22m',
+      render: () => '',
+    }).prompt();
+    await expect(answer).rejects.toThrow(NonInteractiveError);
+    await expect(answer).rejects.toThrow(
+      'Cannot answer "Pick" in non-interactive mode: Pick one\nPress space',
+    );
+  });
+});
+
+describe('inherited context', () => {
+  const text = (input = new PassThrough()) =>
+    new TextPrompt({ input, output: discard(), render: () => '' });
+
+  it('only applies to the prompts started within the scope', async () => {
+    const controller = new AbortController();
+    const inside = withSignal(controller.signal, async () => {
+      await new Promise((resolve) => setTimeout(resolve));
+      return text().prompt();
+    });
+    // started while the scope above is pending
+    const input = new PassThrough();
+    const outside = text(input).prompt();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    expect(isCancel(await inside)).toBe(true);
+    input.write('x\r');
+    expect(await outside).toBe('x');
+  });
+
+  it('answers the first prompt with the preset', async () => {
+    const preset = { value: 'preset', consumed: false, edit: false };
+    const input = new PassThrough();
+    const answers = withPresetAnswer(preset, async () => {
+      const first = await text().prompt();
+      const second = text(input).prompt();
+      input.write('typed\r');
+      return [first, await second];
+    });
+    expect(await answers).toEqual(['preset', 'typed']);
+    expect(preset.consumed).toBe(true);
+  });
+});
+
+describe('async validation', () => {
+  // validation settled by the test, recording the values checked
+  const pending = () => {
+    const checked: string[] = [];
+    const results: Array<(problem?: string) => void> = [];
+    const validate = (value: string) => {
+      checked.push(value);
+      return new Promise<string | undefined>((resolve) =>
+        results.push(resolve),
+      );
+    };
+    return { checked, results, validate };
+  };
+
+  const text = (validate: (value: string) => Promise<string | undefined>) => {
+    const terminal = createTestTerminal();
+    const states: string[] = [];
+    const prompt = new TextPrompt({
+      input: terminal.input,
+      output: terminal.output,
+      validate,
+      render() {
+        states.push(this.state);
+        return this.state;
+      },
+    });
+    return { prompt, answer: prompt.prompt(), terminal, states };
+  };
+
+  it('keeps rendering while the value is checked', async () => {
+    const { results, validate } = pending();
+    const { prompt, answer, terminal, states } = text(validate);
+    await terminal.type('ab');
+    await terminal.sendKeys('return');
+    expect(prompt.state).toBe('validating');
+    const renders = states.length;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(states.length).toBeGreaterThan(renders);
+    results[0]!('Taken');
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(prompt.state).toBe('error');
+    expect(prompt.error).toBe('Taken');
+    results.length = 0;
+    await terminal.sendKeys('return');
+    results[0]!();
+    expect(await answer).toBe('ab');
+  });
+
+  it('is canceled while a check is pending', async () => {
+    const { results, validate } = pending();
+    const { answer, terminal } = text(validate);
+    await terminal.type('ab');
+    await terminal.sendKeys('return', 'ctrl-c');
+    expect(isCancel(await answer)).toBe(true);
+    results[0]!();
+  });
+
+  it('checks the value again when it changed while validating', async () => {
+    const { checked, results, validate } = pending();
+    const { prompt, answer, terminal } = text(validate);
+    await terminal.type('ab');
+    await terminal.sendKeys('return');
+    await terminal.type('c');
+    results[0]!();
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(prompt.state).toBe('validating');
+    results[1]!();
+    expect(await answer).toBe('abc');
+    expect(checked).toEqual(['ab', 'abc']);
+  });
+});
+
+describe('events', () => {
+  const text = () => {
+    const terminal = createTestTerminal();
+    const prompt = new TextPrompt({
+      input: terminal.input,
+      output: terminal.output,
+      validate: (value) => (value ? undefined : 'Required'),
+      render: () => '',
+    });
+    return { prompt, terminal };
+  };
+
+  it('calls the listeners until they are removed', () => {
+    const { prompt } = text();
+    const calls: string[] = [];
+    const always = (value: string) => calls.push(`on ${value}`);
+    prompt.on('back', always);
+    prompt.once('back', (value) => calls.push(`once ${value}`));
+    prompt.emit('back', 'a');
+    prompt.emit('back', 'b');
+    prompt.off('back', always);
+    prompt.emit('back', 'c');
+    expect(calls).toEqual(['on a', 'once a', 'on b']);
+    // @ts-expect-error listeners are typed by event
+    prompt.on('back', (value: number) => value);
+  });
+
+  it('calls every listener when one removes itself', () => {
+    const { prompt } = text();
+    const calls: string[] = [];
+    const first = () => {
+      calls.push('first');
+      prompt.off('timeout', first);
+    };
+    prompt.on('timeout', first);
+    prompt.on('timeout', () => calls.push('second'));
+    prompt.emit('timeout');
+    prompt.emit('timeout');
+    expect(calls).toEqual(['first', 'second', 'second']);
+  });
+
+  it('reports the changes of state', async () => {
+    const { prompt, terminal } = text();
+    const changes: string[] = [];
+    prompt.on('stateChange', (state, previous) =>
+      changes.push(`${previous} > ${state}`),
+    );
+    const answer = prompt.prompt();
+    await terminal.sendKeys('return');
+    await terminal.type('a');
+    await terminal.sendKeys('return');
+    expect(await answer).toBe('a');
+    expect(changes).toEqual([
+      'initial > active',
+      'active > error',
+      'error > active',
+      'active > submit',
+    ]);
+  });
+});
@@ -1,72 +1,276 @@
-import process, { stdin, stdout } from 'process';
+import { AsyncLocalStorage } from 'async_hooks';
+import process from 'process';
 import readline, { type Key, type ReadLine } from 'readline';
-import { cursor, erase } from 'sisteransi';
-import type { Readable, Writable } from 'stream';
-import { WriteStream } from 'tty';
-import wrap from 'wrap-ansi';
-
-function diffLines(a: string, b: string) {
-  if (a === b) return;
+import { cursor } from 'sisteransi';
+import { type Readable, Writable } from 'stream';
+import { stripVTControlCharacters } from 'util';
+import {
+  type Action,
+  type KeybindingOverrides,
+  type Keybindings,
+  isCharacterKey,
+  keyActions,
+  resolveKeybindings,
+} from '../keybindings.js';
+import { type Locale, type LocaleOverrides, resolveLocale } from '../locale.js';
+import {
+  getColumns,
+  getDefaultStreams,
+  getRows,
+  setRawMode,
+  writeCounter,
+} from '../utils.js';
+import Viewport, { type Frame, frameText } from '../viewport.js';
+
+/** Answer of a canceled prompt, for wrappers canceling on their own. */
+export const cancel = Symbol('clack:cancel');
+export function isCancel(value: unknown): value is symbol {
+  return value === cancel;
+}
 
-  const aLines = a.split('\n');
-  const bLines = b.split('\n');
-  const diff: number[] = [];
+const back = Symbol('clack:back');
+/** Whether the user asked to go back to the previous prompt. */
+export function isBack(value: unknown): value is symbol {
+  return value === back;
+}
 
-  for (let i = 0; i < Math.max(aLines.length, bLines.length); i++) {
-    if (aLines[i] !== bLines[i]) diff.push(i);
+export class NonInteractiveError extends Error {
+  constructor(
+    public promptMessage: string,
+    reason: string,
+  ) {
+    // the reason may be styled for the terminal
+    super(
+      `Cannot answer "${promptMessage}" in non-interactive mode: ${stripVTControlCharacters(reason)}`,
+    );
+    this.name = 'NonInteractiveError';
   }
+}
 
-  return diff;
+/**
+ * Prompts run non-interactively when forced through the option or the
+ * `CLACK_NON_INTERACTIVE` environment variable, or when reading from a stdin
+ * that is not a TTY. Other streams, such as sockets, are read interactively
+ * unless the option says otherwise.
+ */
+function isNonInteractive(input: Readable, option: boolean | undefined) {
+  if (option !== undefined) return option;
+  const env = process.env.CLACK_NON_INTERACTIVE;
+  if (env !== undefined && env !== '') return env !== '0' && env !== 'false';
+  return input === process.stdin && !process.stdin.isTTY;
 }
 
-const cancel = Symbol('clack:cancel');
-export function isCancel(value: unknown): value is symbol {
-  return value === cancel;
+export interface PresetAnswer {
+  value: unknown;
+  /** Set once a prompt has taken the answer. */
+  consumed: boolean;
+  /** Starts the prompt from the value instead of submitting it. */
+  edit: boolean;
+}
+
+export type BackKey = 'shift-tab' | 'escape';
+
+/** What the prompts started within a scope inherit from it. */
+interface PromptContext {
+  signal?: AbortSignal;
+  backKey?: BackKey;
+  listener?: (prompt: Prompt) => void;
+  preset?: PresetAnswer;
+}
+
+// scopes follow the async calls made within them, so prompts started
+// concurrently elsewhere do not inherit them
+const context = new AsyncLocalStorage<PromptContext>();
+
+function withContext<T>(
+  scope: PromptContext,
+  fn: () => T | Promise<T>,
+): Promise<T> {
+  return context.run({ ...context.getStore(), ...scope }, async () => fn());
+}
+
+/**
+ * Runs `fn` so that the first prompt it starts is answered with the preset
+ * instead of asking the user. The preset is still checked by that prompt's
+ * `validate`. With `edit`, the prompt shows the value and waits for the user
+ * to confirm or change it.
+ */
+export function withPresetAnswer<T>(
+  preset: PresetAnswer | undefined,
+  fn: () => T | Promise<T>,
+): Promise<T> {
+  return withContext({ preset }, fn);
+}
+
+/**
+ * Runs `fn` so that the prompts it starts are also canceled when `signal`
+ * is aborted.
+ */
+export function withSignal<T>(
+  signal: AbortSignal | undefined,
+  fn: () => T | Promise<T>,
+): Promise<T> {
+  return withContext({ signal: signal ?? context.getStore()?.signal }, fn);
+}
+
+/**
+ * Runs `fn`, calling `listener` with each prompt it starts, after the
+ * listeners of the enclosing scopes.
+ */
+export function withPromptListener<T>(
+  listener: (prompt: Prompt) => void,
+  fn: () => T | Promise<T>,
+): Promise<T> {
+  const outer = context.getStore()?.listener;
+  return withContext(
+    {
+      listener: outer
+        ? (prompt) => {
+            outer(prompt);
+            listener(prompt);
+          }
+        : listener,
+    },
+    fn,
+  );
 }
 
-function setRawMode(input: Readable, value: boolean) {
-  if ((input as typeof stdin).isTTY) (input as typeof stdin).setRawMode(value);
+/**
+ * Runs `fn` so that the prompts it starts resolve with the back symbol when
+ * `key` is pressed.
+ */
+export function withBackKey<T>(
+  key: BackKey | undefined,
+  fn: () => T | Promise<T>,
+): Promise<T> {
+  return withContext({ backKey: key }, fn);
 }
 
-const aliases = new Map([
-  ['k', 'up'],
-  ['j', 'down'],
-  ['h', 'left'],
-  ['l', 'right'],
+// actions moving the cursor, the toggle is sent as `space`
+const cursorActions = new Map<Action, Parameters<PromptEvents['cursor']>[0]>([
+  ['up', 'up'],
+  ['down', 'down'],
+  ['left', 'left'],
+  ['right', 'right'],
+  ['toggle', 'space'],
 ]);
-const keys = new Set(['up', 'down', 'left', 'right', 'space', 'enter']);
 
 export interface PromptOptions<Self extends Prompt> {
-  render(this: Omit<Self, 'prompt'>): string | void;
+  /**
+   * Draws the prompt. A frame with a header and footer keeps them in view,
+   * and its focused line, when it is taller than the output.
+   */
+  render(this: Omit<Self, 'prompt'>): string | Frame | void;
+  /** Used to name the prompt in errors. */
+  message?: string;
   placeholder?: string;
   initialValue?: any;
-  validate?: ((value: any) => string | void) | undefined;
+  validate?:
+    ((value: any) => string | void | Promise<string | void>) | undefined;
   input?: Readable;
   output?: Writable;
+  /**
+   * Resolve immediately from the initial or default value instead of
+   * waiting for keypresses. When omitted, only a stdin that is not a TTY
+   * is non-interactive.
+   */
+  nonInteractive?: boolean;
+  /** Cancels the prompt when aborted. */
+  signal?: AbortSignal;
+  /**
+   * Milliseconds to wait for the user before `timeoutAction` is taken. The
+   * countdown stops once the user presses a key.
+   */
+  timeout?: number;
+  /** Submits the current value, by default, or cancels on timeout. */
+  timeoutAction?: 'submit' | 'cancel';
+  /** Erases the prompt and resolves with the back symbol. */
+  backKey?: BackKey;
+  /** Keys bound to the actions of this prompt, over the global ones. */
+  keybindings?: KeybindingOverrides;
+  /** Text of this prompt, over the global locale. */
+  locale?: LocaleOverrides;
   debug?: boolean;
 }
 
-export type State = 'initial' | 'active' | 'cancel' | 'submit' | 'error';
+export type State =
+  'initial' | 'active' | 'validating' | 'cancel' | 'submit' | 'error';
+
+/** Events of a prompt, by name, with the listener they are given to. */
+export interface PromptEvents<Value = any> {
+  /** The typed text changed. */
+  value: (text: string) => void;
+  /** A key moving the cursor was pressed, `space` toggles. */
+  cursor: (direction: 'up' | 'down' | 'left' | 'right' | 'space') => void;
+  action: (action: Action) => void;
+  /** A key was pressed, the character is lowercased. */
+  key: (char: string | undefined, key?: Key) => void;
+  /** The prompt is about to render its last frame. */
+  finalize: () => void;
+  submit: (value: Value) => void;
+  cancel: (value: Value) => void;
+  back: (value: Value) => void;
+  timeout: () => void;
+  /** A frame was written to the output. */
+  render: (frame: string) => void;
+  stateChange: (state: State, previous: State) => void;
+}
+
+type EventArgs<Listener> = Listener extends (...args: infer Args) => void
+  ? Args
+  : never;
 
-export default class Prompt {
+export default class Prompt<Events extends PromptEvents = PromptEvents> {
   protected input: Readable;
   protected output: Writable;
   private rl!: ReadLine;
   private opts: Omit<PromptOptions<Prompt>, 'render' | 'input' | 'output'>;
   private _track: boolean = false;
-  private _render: (context: Omit<Prompt, 'prompt'>) => string | void;
+  private _render: (context: Omit<Prompt, 'prompt'>) => string | Frame | void;
+  private viewport: Viewport;
   protected _cursor: number = 0;
 
-  public state: State = 'initial';
+  private _state: State = 'initial';
   public value: any;
   public error: string = '';
+  public userInput: string = '';
+  /**
+   * Whether the value was entered by the user, taken from a default or
+   * preset, or submitted as it was when the prompt timed out.
+   */
+  public answeredFrom: 'user' | 'default' | 'preset' | 'timeout' = 'user';
+  /** Seconds left before the prompt times out, while the countdown runs. */
+  public countdown: number | undefined;
+  protected nonInteractive: boolean;
+  private signals: AbortSignal[];
+  private backKey: BackKey | undefined;
+  protected keybindings: Keybindings;
+  protected locale: Locale;
+  private listener: ((prompt: Prompt) => void) | undefined;
+  private _back = false;
+  // writes made to the output when the prompt started and once answered
+  private writes: { count: number };
+  private _writesAtStart = 0;
+  private _writesAtEnd = -1;
+
+  private _validation = 0;
+  private _validatingLoop?: NodeJS.Timeout;
+  private _timeout?: NodeJS.Timeout;
+  private _countdownLoop?: NodeJS.Timeout;
 
   constructor(
-    { render, input = stdin, output = stdout, ...opts }: PromptOptions<Prompt>,
+    {
+      render,
+      input = getDefaultStreams().input,
+      output = getDefaultStreams().output,
+      ...opts
+    }: PromptOptions<Prompt>,
     trackValue: boolean = true,
   ) {
     this.opts = opts;
     this.onKeypress = this.onKeypress.bind(this);
+    this.onAbort = this.onAbort.bind(this);
+    this.onTimeout = this.onTimeout.bind(this);
     this.close = this.close.bind(this);
     this.render = this.render.bind(this);
     this._render = render.bind(this);
@@ -74,15 +278,158 @@ export default class Prompt {
 
     this.input = input;
     this.output = output;
+    this.viewport = new Viewport(output);
+    this.writes = writeCounter(output);
+    this.nonInteractive = isNonInteractive(input, opts.nonInteractive);
+    const inherited = context.getStore();
+    this.signals = [opts.signal, inherited?.signal].filter(
+      (signal): signal is AbortSignal => signal !== undefined,
+    );
+    this.backKey = opts.backKey ?? inherited?.backKey;
+    this.locale = resolveLocale(opts.locale);
+    this.keybindings = resolveKeybindings(opts.keybindings, this.locale);
+    this.listener = inherited?.listener;
+  }
+
+  public get state(): State {
+    return this._state;
+  }
+
+  public set state(state: State) {
+    const previous = this._state;
+    if (state === previous) return;
+    this._state = state;
+    this.fire('stateChange', state, previous);
+  }
+
+  /** The message the prompt was created with. */
+  get message(): string | undefined {
+    return this.opts.message;
+  }
+
+  /** Whether the prompt can be answered without any input from the user. */
+  protected get hasDefault(): boolean {
+    return this.opts.initialValue !== undefined;
+  }
+
+  /**
+   * Takes a value that was not entered by the user, returning a problem
+   * when the prompt cannot represent it.
+   */
+  protected setValue(value: any): string | void {
+    if (this._track) {
+      this.userInput = String(value ?? '');
+      this.value = this.userInput;
+      this.fire('value', this.value);
+    } else {
+      this.value = value;
+    }
+  }
+
+  /**
+   * Replaces the typed text, for prompts restricting what can be entered.
+   */
+  protected setUserInput(text: string, position: number = text.length) {
+    if (this.rl) {
+      const rl = this.rl as ReadLine & { line: string; cursor: number };
+      rl.line = text;
+      rl.cursor = position;
+    }
+    this.userInput = text;
+    this._cursor = position;
+    this.value = text;
+    this.fire('value', this.value);
+  }
+
+  private async answerWithDefault(): Promise<any> {
+    const message = this.opts.message ?? 'prompt';
+    if (!this.hasDefault) {
+      throw new NonInteractiveError(message, 'no default value is available');
+    }
+    if (this._track) {
+      this.setValue(this.opts.initialValue ?? '');
+    }
+    const problem = await this.opts.validate?.(this.value);
+    if (problem) {
+      throw new NonInteractiveError(message, problem);
+    }
+    return this.submitAnswer('default');
+  }
+
+  private async answerWithPreset({ value, edit }: PresetAnswer): Promise<any> {
+    const rejected = this.setValue(value);
+    // a value the prompt cannot show is dropped, the user starts over
+    if (edit && !this.nonInteractive) return this.ask();
+    const problem = rejected || (await this.opts.validate?.(this.value));
+    if (!problem) return this.submitAnswer('preset');
+    if (this.nonInteractive) {
+      throw new NonInteractiveError(this.opts.message ?? 'prompt', problem);
+    }
+    // let the user correct the preset, starting from the error
+    this.error = problem;
+    return this.ask();
+  }
+
+  private submitAnswer(from: 'default' | 'preset') {
+    this.answeredFrom = from;
+    this.state = 'submit';
+    this.fire('finalize');
+    const frame = frameText(this._render(this) ?? '');
+    if (frame) {
+      this.viewport.write(frame);
+      this.output.write('\n');
+      this.fire('render', frame);
+    }
+    this._writesAtEnd = this.writes.count;
+    this.fire('submit', this.value);
+    this.unsubscribe();
+    return this.value;
+  }
+
+  private get aborted(): boolean {
+    return this.signals.some((signal) => signal.aborted);
+  }
+
+  private cancelAnswer() {
+    this.state = 'cancel';
+    this.fire('finalize');
+    const frame = frameText(this._render(this) ?? '');
+    if (frame) {
+      this.viewport.write(frame);
+      this.output.write('\n');
+      this.fire('render', frame);
+    }
+    this._writesAtEnd = this.writes.count;
+    this.fire('cancel', this.value);
+    this.unsubscribe();
+    return cancel;
   }
 
   public prompt(): Promise<string | symbol> {
-    const sink = new WriteStream(0);
+    this.listener?.(this);
+    this._writesAtStart = this.writes.count;
+    if (this.aborted) return Promise.resolve(this.cancelAnswer());
+    const preset = context.getStore()?.preset;
+    if (preset && !preset.consumed) {
+      preset.consumed = true;
+      return this.answerWithPreset(preset);
+    }
+    if (this.nonInteractive) return this.answerWithDefault();
+    return this.ask();
+  }
+
+  private ask(): Promise<string | symbol> {
+    const initialInput = this.userInput || this.opts.initialValue;
+    const sink = new Writable();
     sink._write = (chunk, encoding, done) => {
       if (this._track) {
-        this.value = this.rl.line.replace(/\t/g, '');
-        this._cursor = this.rl.cursor;
-        this.emit('value', this.value);
+        this.userInput = this.rl.line.replace(/\t/g, '');
+        // tabs are stripped from the input, so they must not shift the cursor
+        this._cursor = this.rl.line
+          .slice(0, this.rl.cursor)
+          .replace(/\t/g, '').length;
+        this.value = this.userInput;
+        this.fire('value', this.value);
       }
       done();
     };
@@ -94,53 +441,86 @@ export default class Prompt {
       tabSize: 2,
       prompt: '',
       escapeCodeTimeout: 50,
+      // the sink is not a TTY, keep readline's line editing regardless
+      terminal: true,
     });
     readline.emitKeypressEvents(this.input, this.rl);
     this.rl.prompt();
-    if (this.opts.initialValue !== undefined && this._track) {
-      this.rl.write(this.opts.initialValue);
+    if (initialInput !== undefined && this._track) {
+      this.rl.write(initialInput);
     }
 
     this.input.on('keypress', this.onKeypress);
     setRawMode(this.input, true);
     this.output.on('resize', this.render);
+    for (const signal of this.signals) {
+      signal.addEventListener('abort', this.onAbort);
+    }
+    if (this.opts.timeout !== undefined) {
+      this.startCountdown(this.opts.timeout);
+    }
 
     this.render();
+    if (this.error) {
+      this.state = 'error';
+      this.render();
+    }
 
     return new Promise<string | symbol>((resolve) => {
       this.once('submit', () => {
         this.output.write(cursor.show);
+        this._writesAtEnd = this.writes.count;
         this.output.off('resize', this.render);
         setRawMode(this.input, false);
         resolve(this.value);
       });
       this.once('cancel', () => {
         this.output.write(cursor.show);
+        this._writesAtEnd = this.writes.count;
         this.output.off('resize', this.render);
         setRawMode(this.input, false);
         resolve(cancel);
       });
+      this.once('back', () => {
+        this.output.write(cursor.show);
+        // the prompt left nothing on screen
+        this.writes.count = this._writesAtStart;
+        this.output.off('resize', this.render);
+        setRawMode(this.input, false);
+        resolve(back);
+      });
     });
   }
 
   private subscribers = new Map<
-    string,
-    Array<{ cb: (...args: any) => any; once?: boolean }>
+    PropertyKey,
+    Array<{ cb: (...args: any[]) => void; once?: boolean }>
   >();
-  public on(event: string, cb: (...args: any) => any): void {
+  public on<E extends keyof Events>(event: E, cb: Events[E]): void {
     const arr = this.subscribers.get(event) ?? [];
-    arr.push({ cb });
+    arr.push({ cb: cb as (...args: any[]) => void });
     this.subscribers.set(event, arr);
   }
-  public once(event: string, cb: (...args: any) => any): void {
+  public once<E extends keyof Events>(event: E, cb: Events[E]): void {
     const arr = this.subscribers.get(event) ?? [];
-    arr.push({ cb, once: true });
+    arr.push({ cb: cb as (...args: any[]) => void, once: true });
     this.subscribers.set(event, arr);
   }
-  public emit(event: string, ...data: any[]): void {
+  public off<E extends keyof Events>(event: E, cb: Events[E]): void {
+    const arr = this.subscribers.get(event) ?? [];
+    this.subscribers.set(
+      event,
+      arr.filter((subscriber) => subscriber.cb !== cb),
+    );
+  }
+  public emit<E extends keyof Events>(
+    event: E,
+    ...data: EventArgs<Events[E]>
+  ): void {
     const cbs = this.subscribers.get(event) ?? [];
     const cleanup: Array<() => void> = [];
-    for (const subscriber of cbs) {
+    // listeners may remove themselves while the event is emitted
+    for (const subscriber of [...cbs]) {
       subscriber.cb(...data);
       if (subscriber.once) {
         cleanup.push(() => cbs.splice(cbs.indexOf(subscriber), 1));
@@ -150,51 +530,121 @@ export default class Prompt {
       cb();
     }
   }
+  /** Emits one of the events every prompt has. */
+  private fire<E extends keyof PromptEvents>(
+    event: E,
+    ...data: EventArgs<PromptEvents[E]>
+  ): void {
+    (this as Prompt).emit(event, ...data);
+  }
   private unsubscribe() {
     this.subscribers.clear();
   }
 
-  private onKeypress(char: string, key?: Key) {
+  /**
+   * Whether keys typing a character, such as `j` or `a`, trigger the actions
+   * they are bound to. Only when no text is typed.
+   */
+  protected get bindsCharacters(): boolean {
+    return !this._track;
+  }
+
+  /** Actions bound to the key. */
+  protected keyActions(char: string | undefined, key?: Key): Action[] {
+    if (!this.bindsCharacters && isCharacterKey(char, key)) return [];
+    return keyActions(this.keybindings, char, key);
+  }
+
+  protected isSubmitKey(char: string | undefined, key?: Key): boolean {
+    return this.keyActions(char, key).includes('submit');
+  }
+
+  /** Fills in the placeholder when nothing was typed yet. */
+  protected onTab(): void {
+    if (this.opts.placeholder && !this.value) {
+      this.rl.write(this.opts.placeholder);
+      this.fire('value', this.opts.placeholder);
+    }
+  }
+
+  private isBackKey(key?: Key): boolean {
+    if (this.backKey === 'shift-tab') return key?.name === 'tab' && !!key.shift;
+    if (this.backKey === 'escape') return key?.name === 'escape';
+    return false;
+  }
+
+  private onKeypress(char: string | undefined, key?: Key) {
+    this.stopCountdown();
+    if (this.isBackKey(key)) {
+      this.goBack();
+      return;
+    }
+    const actions = this.keyActions(char, key);
+    if (this.state === 'validating') {
+      // keys keep editing the input line, but only cancel is handled
+      // until the pending validation settles
+      if (!actions.includes('cancel')) return;
+      this.stopValidating();
+    }
     if (this.state === 'error') {
       this.state = 'active';
     }
-    if (key?.name && !this._track && aliases.has(key.name)) {
-      this.emit('cursor', aliases.get(key.name));
+    for (const action of actions) {
+      const direction = cursorActions.get(action);
+      if (direction) this.fire('cursor', direction);
+      this.fire('action', action);
     }
-    if (key?.name && keys.has(key.name)) {
-      this.emit('cursor', key.name);
+    if (char === '\t') {
+      this.onTab();
     }
-    if (char && (char.toLowerCase() === 'y' || char.toLowerCase() === 'n')) {
-      this.emit('confirm', char.toLowerCase() === 'y');
+    if (char || key) {
+      this.fire('key', char?.toLowerCase(), key);
     }
-    if (char === '\t' && this.opts.placeholder) {
-      if (!this.value) {
-        this.rl.write(this.opts.placeholder);
-        this.emit('value', this.opts.placeholder);
-      }
+
+    if (this.isSubmitKey(char, key)) {
+      this.answeredFrom = 'user';
+      if (!this.trySubmit()) return;
+    } else if (key?.name === 'return') {
+      // return is not bound to submit, but readline cleared its line
+      this.restoreLine();
     }
-    if (char) {
-      this.emit('key', char.toLowerCase());
+    if (actions.includes('cancel')) {
+      this.state = 'cancel';
     }
+    this.settle();
+  }
 
-    if (key?.name === 'return') {
-      if (this.opts.validate) {
-        const problem = this.opts.validate(this.value);
-        if (problem) {
-          this.error = problem;
-          this.state = 'error';
-          this.rl.write(this.value);
-        }
+  /**
+   * Validates the value, moving to the submit or error state. Returns false
+   * while an asynchronous validation is pending.
+   */
+  private trySubmit(): boolean {
+    if (this.opts.validate) {
+      const problem = this.opts.validate(this.value);
+      if (problem instanceof Promise) {
+        this.validateAsync(problem);
+        return false;
       }
-      if (this.state !== 'error') {
-        this.state = 'submit';
+      if (problem) {
+        this.error = problem;
+        this.state = 'error';
+        this.restoreLine();
       }
     }
-    if (char === '\x03') {
-      this.state = 'cancel';
+    if (this.state !== 'error') {
+      this.state = 'submit';
     }
+    return true;
+  }
+
+  /** Puts the text back after readline cleared its line on return. */
+  private restoreLine() {
+    if (this._track && !this.rl.line) this.rl.write(this.userInput);
+  }
+
+  private settle() {
     if (this.state === 'submit' || this.state === 'cancel') {
-      this.emit('finalize');
+      this.fire('finalize');
     }
     this.render();
     if (this.state === 'submit' || this.state === 'cancel') {
@@ -202,78 +652,142 @@ export default class Prompt {
     }
   }
 
-  protected close(): void {
-    this.input.unpipe();
-    this.input.removeListener('keypress', this.onKeypress);
-    this.output.write('\n');
-    setRawMode(this.input, false);
-    this.rl.close();
-    this.emit(this.state, this.value);
-    this.unsubscribe();
+  private validateAsync(pending: Promise<string | void>) {
+    const id = ++this._validation;
+    const value = this.value;
+    const userInput = this.userInput;
+    // edits made while validating apply to the submitted text
+    this.restoreLine();
+    this.state = 'validating';
+    this.render();
+    this._validatingLoop = setInterval(this.render, 80);
+
+    pending
+      .catch((e: unknown) => (e instanceof Error ? e.message : String(e)))
+      .then((problem) => {
+        // the prompt was canceled or a newer validation superseded this one
+        if (id !== this._validation || this.state !== 'validating') return;
+        this.stopValidating();
+        if (
+          this.value !== value ||
+          (this._track && this.userInput !== userInput)
+        ) {
+          // the value changed while validating, the new value is checked
+          this.state = 'active';
+          if (this.trySubmit()) this.settle();
+          return;
+        }
+        if (problem) {
+          this.error = problem;
+          this.state = 'error';
+        } else {
+          this.state = 'submit';
+        }
+        this.settle();
+      });
   }
 
-  private restoreCursor() {
-    const lines =
-      wrap(this._prevFrame, process.stdout.columns, { hard: true }).split('\n')
-        .length - 1;
-    this.output.write(cursor.move(-999, lines * -1));
+  private startCountdown(timeout: number) {
+    const deadline = Date.now() + timeout;
+    this.countdown = Math.ceil(timeout / 1000);
+    this._timeout = setTimeout(this.onTimeout, timeout);
+    this._countdownLoop = setInterval(() => {
+      this.countdown = Math.max(Math.ceil((deadline - Date.now()) / 1000), 0);
+      this.render();
+    }, 1000);
   }
 
-  private _prevFrame = '';
-  private render() {
-    const frame = wrap(this._render(this) ?? '', process.stdout.columns, {
-      hard: true,
-    });
-    if (frame === this._prevFrame) return;
+  private stopCountdown() {
+    clearTimeout(this._timeout);
+    clearInterval(this._countdownLoop);
+    this.countdown = undefined;
+  }
 
-    if (this.state === 'initial') {
-      this.output.write(cursor.hide);
+  private onTimeout() {
+    this.stopCountdown();
+    this.fire('timeout');
+    if (this.opts.timeoutAction === 'cancel') {
+      this.state = 'cancel';
+    } else {
+      if (this.state === 'error') this.state = 'active';
+      this.answeredFrom = 'timeout';
+      if (!this.trySubmit()) return;
     }
+    this.settle();
+  }
 
-    const diff = diffLines(this._prevFrame, frame);
-    this.restoreCursor();
-    if (diff) {
-      const diffLine = diff[0]!;
-      const lines = frame.split('\n');
-      let newLines: string[] = [];
+  private onAbort() {
+    if (this.state === 'submit' || this.state === 'cancel') return;
+    this.stopValidating();
+    this.state = 'cancel';
+    this.settle();
+  }
 
-      // If we don't have enough vertical space to print all of the lines simultaneously,
-      // then we'll sticky the prompt message (first 3 lines) to the top so it's always shown.
-      // We'll then take the remaining space and render a snippet of the list that's relative
-      // to the currently selected option
-      if (lines.length > process.stdout.rows) {
-        const OFFSET = 3;
-        const PAGE_SIZE = process.stdout.rows - OFFSET;
+  /**
+   * Erases the last frame of an answered prompt, when nothing was written
+   * below it since, so that it can be asked again in its place.
+   */
+  public erase(): void {
+    if (this.state !== 'submit' && this.state !== 'cancel') return;
+    if (!this.viewport.height) return;
+    // the frame is no longer the last thing on screen
+    if (this.writes.count !== this._writesAtEnd) return;
+    // the cursor rests on the line below the frame
+    this.output.write(cursor.up(1));
+    this.viewport.clear();
+    // the screen is back to what it was before the prompt
+    this.writes.count = this._writesAtStart;
+  }
 
-        // @ts-expect-error `cursor` is a property that's implemented by prompts extending this class.
-        const pos: number = this.cursor;
+  /** Erases the prompt, the previous one is asked again in its place. */
+  private goBack() {
+    this.stopValidating();
+    this.viewport.clear();
+    this._back = true;
+    this.close();
+  }
 
-        // page positions
-        const start = pos <= OFFSET ? OFFSET : pos;
-        const end = start + PAGE_SIZE;
+  private stopValidating() {
+    this._validation++;
+    clearInterval(this._validatingLoop);
+  }
 
-        this.output.write(erase.down());
+  protected close(): void {
+    this.input.unpipe();
+    this.input.removeListener('keypress', this.onKeypress);
+    if (!this._back) this.output.write('\n');
+    setRawMode(this.input, false);
+    this.stopCountdown();
+    for (const signal of this.signals) {
+      signal.removeEventListener('abort', this.onAbort);
+    }
+    this.rl.close();
+    this.fire(
+      this._back ? 'back' : (this.state as 'submit' | 'cancel'),
+      this.value,
+    );
+    this.unsubscribe();
+  }
 
-        // stickied headers
-        const header = lines.slice(0, OFFSET);
-        const content = lines.slice(start, end);
-        newLines = newLines.concat(header, content);
-      } else {
-        this.output.write(cursor.move(0, diffLine));
-        this.output.write(erase.down());
+  /** Width of the output the prompt renders to. */
+  get columns(): number {
+    return getColumns(this.output);
+  }
 
-        newLines = lines.slice(diffLine);
-      }
+  /** Height of the output the prompt renders to. */
+  get rows(): number {
+    return getRows(this.output);
+  }
 
-      this.output.write(newLines.join('\n'));
-      this._prevFrame = frame;
-      return;
+  protected render() {
+    const frame = this._render(this) ?? '';
+    if (this.state === 'initial') {
+      this.output.write(cursor.hide);
     }
-
-    this.output.write(frame);
+    if (!this.viewport.render(frame)) return;
     if (this.state === 'initial') {
       this.state = 'active';
     }
-    this._prevFrame = frame;
+    this.fire('render', frameText(frame));
   }
 }
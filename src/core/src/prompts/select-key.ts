@@ -1,13 +1,22 @@
-import Prompt, { type PromptOptions } from './prompt.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 interface SelectKeyOptions<T extends { value: any }>
   extends PromptOptions<SelectKeyPrompt<T>> {
   options: T[];
 }
-export default class SelectKeyPrompt<T extends { value: any }> extends Prompt {
+export default class SelectKeyPrompt<T extends { value: any }> extends Prompt<
+  PromptEvents<T['value']>
+> {
   options: T[];
   cursor: number = 0;
 
+  protected override setValue(value: T['value']): string | void {
+    const index = this.options.findIndex((option) => option.value === value);
+    if (index === -1) return this.locale.unknownOption(String(value));
+    this.cursor = index;
+    this.value = value;
+  }
+
   constructor(opts: SelectKeyOptions<T>) {
     super(opts, false);
 
@@ -16,6 +25,9 @@ export default class SelectKeyPrompt<T extends { value: any }> extends Prompt {
       initial?.toLowerCase(),
     );
     this.cursor = Math.max(keys.indexOf(opts.initialValue), 0);
+    if (opts.initialValue !== undefined) {
+      this.value = this.options[this.cursor]?.value;
+    }
 
     this.on('key', (key) => {
       if (!keys.includes(key)) return;
@@ -25,7 +37,7 @@ export default class SelectKeyPrompt<T extends { value: any }> extends Prompt {
       if (value) {
         this.value = value.value;
         this.state = 'submit';
-        this.emit('submit');
+        this.emit('submit', this.value);
       }
     });
   }
@@ -1,11 +1,13 @@
-import Prompt, { type PromptOptions } from './prompt.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 interface SelectOptions<T extends { value: any }>
   extends PromptOptions<SelectPrompt<T>> {
   options: T[];
   initialValue?: T['value'];
 }
-export default class SelectPrompt<T extends { value: any }> extends Prompt {
+export default class SelectPrompt<T extends { value: any }> extends Prompt<
+  PromptEvents<T['value']>
+> {
   options: T[];
   cursor: number = 0;
 
@@ -17,6 +19,13 @@ export default class SelectPrompt<T extends { value: any }> extends Prompt {
     this.value = this._value!.value;
   }
 
+  protected override setValue(value: T['value']): string | void {
+    const index = this.options.findIndex((option) => option.value === value);
+    if (index === -1) return this.locale.unknownOption(String(value));
+    this.cursor = index;
+    this.changeValue();
+  }
+
   constructor(opts: SelectOptions<T>) {
     super(opts, false);
 
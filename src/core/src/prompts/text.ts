@@ -1,18 +1,23 @@
-import color from 'picocolors';
-import Prompt, { type PromptOptions } from './prompt.js';
+import { withCursor } from '../utils.js';
+import Prompt, { type PromptEvents, type PromptOptions } from './prompt.js';
 
 export interface TextOptions extends PromptOptions<TextPrompt> {
   placeholder?: string;
   defaultValue?: string;
 }
 
-export default class TextPrompt extends Prompt {
+export default class TextPrompt extends Prompt<PromptEvents<string>> {
   valueWithCursor = '';
+  #defaultValue: string | undefined;
   get cursor(): number {
     return this._cursor;
   }
+  protected override get hasDefault(): boolean {
+    return super.hasDefault || this.#defaultValue !== undefined;
+  }
   constructor(opts: TextOptions) {
     super(opts);
+    this.#defaultValue = opts.defaultValue;
 
     this.on('finalize', () => {
       if (!this.value) {
@@ -21,13 +26,7 @@ export default class TextPrompt extends Prompt {
       this.valueWithCursor = this.value;
     });
     this.on('value', () => {
-      if (this.cursor >= this.value.length) {
-        this.valueWithCursor = `${this.value}${color.inverse(color.hidden('_'))}`;
-      } else {
-        const s1 = this.value.slice(0, this.cursor);
-        const s2 = this.value.slice(this.cursor);
-        this.valueWithCursor = `${s1}${color.inverse(s2[0])}${s2.slice(1)}`;
-      }
+      this.valueWithCursor = withCursor(this.value, this.cursor);
     });
   }
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyMatch } from './utils.js';
+
+const rank = (query: string, targets: string[]) =>
+  targets
+    .map((target) => ({ target, match: fuzzyMatch(query, target) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => b.match!.score - a.match!.score)
+    .map(({ target }) => target);
+
+describe('fuzzyMatch', () => {
+  it('matches the characters of the query in order, ignoring case', () => {
+    expect(fuzzyMatch('tsx', 'TypeScript JSX')?.indices).toEqual([0, 4, 13]);
+    expect(fuzzyMatch('xst', 'TypeScript JSX')).toBeUndefined();
+    expect(fuzzyMatch('', 'anything')).toEqual({ score: 0, indices: [] });
+  });
+
+  it('ranks prefixes, then word starts, then runs over scattered matches', () => {
+    expect(
+      rank('script', [
+        'postscripts',
+        'type-script',
+        'scripting',
+        's-c-r-i-p-t',
+      ]),
+    ).toEqual(['scripting', 'type-script', 'postscripts', 's-c-r-i-p-t']);
+  });
+
+  it('prefers shorter targets among equal matches', () => {
+    expect(rank('vue', ['vue-router', 'vue'])).toEqual(['vue', 'vue-router']);
+  });
+
+  it('returns indices of the characters of the target', () => {
+    expect(fuzzyMatch('pie', '🥧 pie')?.indices).toEqual([2, 3, 4]);
+    expect(fuzzyMatch('st', 'İstanbul')?.indices).toEqual([1, 2]);
+    expect(fuzzyMatch('ib', 'İstanbul')).toBeUndefined();
+    expect(fuzzyMatch('İs', 'İstanbul')?.indices).toEqual([0, 1]);
+  });
+});
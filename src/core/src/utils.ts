@@ -1,22 +1,85 @@
+import color from 'picocolors';
 import process, { stdin, stdout } from 'process';
 import type { Key } from 'readline';
 import * as readline from 'readline';
 import { cursor } from 'sisteransi';
+import type { Readable, Writable } from 'stream';
+import type { ReadStream, WriteStream } from 'tty';
 
 const isWindows = process.platform.startsWith('win');
 
+export interface Streams {
+  input: Readable;
+  output: Writable;
+}
+
+let defaultStreams: Streams = { input: stdin, output: stdout };
+
+/**
+ * Sets the streams used by every prompt and helper that is not given its own
+ * `input` or `output`.
+ */
+export function setDefaultStreams(streams: Partial<Streams>): void {
+  defaultStreams = { ...defaultStreams, ...streams };
+}
+
+export function getDefaultStreams(): Streams {
+  return defaultStreams;
+}
+
+/** Width of the output, 80 when it is not a terminal. */
+export function getColumns(output: Writable): number {
+  return (output as WriteStream).columns || 80;
+}
+
+/** Height of the output, unlimited when it is not a terminal. */
+export function getRows(output: Writable): number {
+  return (output as WriteStream).rows || Infinity;
+}
+
+const writeCounters = new WeakMap<Writable, { count: number }>();
+
+/**
+ * Counts the writes made to an output, telling whether anything was written
+ * below a frame since it was drawn. The first call wraps its `write`.
+ */
+export function writeCounter(output: Writable): { count: number } {
+  let counter = writeCounters.get(output);
+  if (!counter) {
+    const counted = { count: 0 };
+    const write = output.write;
+    output.write = function (this: Writable, ...args: any[]) {
+      counted.count++;
+      return write.apply(this, args as Parameters<Writable['write']>);
+    } as Writable['write'];
+    writeCounters.set(output, counted);
+    counter = counted;
+  }
+  return counter;
+}
+
+export function setRawMode(input: Readable, value: boolean): void {
+  if ((input as ReadStream).isTTY) (input as ReadStream).setRawMode(value);
+}
+
 export type BlockOptions = {
-  input?: NodeJS.ReadStream | undefined;
-  output?: NodeJS.WriteStream | undefined;
+  input?: Readable | undefined;
+  output?: Writable | undefined;
   overwrite?: boolean | undefined;
   hideCursor?: boolean | undefined;
+  /**
+   * Called when Ctrl+C is read from an input other than stdin. On stdin it
+   * exits the process.
+   */
+  onCancel?: (() => void) | undefined;
 };
 
 export function block({
-  input = stdin,
-  output = stdout,
+  input = defaultStreams.input,
+  output = defaultStreams.output,
   overwrite = true,
   hideCursor = true,
+  onCancel,
 }: BlockOptions = {}) {
   const rl = readline.createInterface({
     input,
@@ -25,12 +88,15 @@ export function block({
     tabSize: 1,
   });
   readline.emitKeypressEvents(input, rl);
-  if (input.isTTY) input.setRawMode(true);
+  setRawMode(input, true);
 
   const clear = (data: Buffer, { name }: Key) => {
     const str = String(data);
     if (str === '\x03') {
-      process.exit(0);
+      // a remote session must not stop the process serving it
+      if (input === stdin) process.exit(0);
+      onCancel?.();
+      return;
     }
     if (!overwrite) return;
     const dx = name === 'return' ? 0 : -1;
@@ -42,18 +108,87 @@ export function block({
       });
     });
   };
-  if (hideCursor) process.stdout.write(cursor.hide);
+  if (hideCursor) output.write(cursor.hide);
   input.once('keypress', clear);
 
   return (): void => {
     input.off('keypress', clear);
-    if (hideCursor) process.stdout.write(cursor.show);
+    if (hideCursor) output.write(cursor.show);
 
     // Prevent Windows specific issues: https://github.com/natemoo-re/clack/issues/176
-    if (input.isTTY && !isWindows) input.setRawMode(false);
+    if (!isWindows) setRawMode(input, false);
 
     // @ts-expect-error fix for https://github.com/nodejs/node/issues/31762#issuecomment-1441223907
     rl.terminal = false;
     rl.close();
   };
 }
+
+/** Renders `text` with an inverse cursor, drawn after the text at its end. */
+export function withCursor(text: string, position: number): string {
+  if (position >= text.length) {
+    return `${text}${color.inverse(color.hidden('_'))}`;
+  }
+  const s1 = text.slice(0, position);
+  const s2 = text.slice(position);
+  return `${s1}${color.inverse(s2[0]!)}${s2.slice(1)}`;
+}
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indices of the matched characters in `[...target]`. */
+  indices: number[];
+}
+
+const isWordBoundary = (char: string | undefined) =>
+  char === undefined || /[\s\-_./\\@:]/.test(char);
+
+/** Index of the first run of `query` in `target`, or -1. */
+const indexOfRun = (target: string[], query: string[]) => {
+  for (let i = 0; i + query.length <= target.length; i++) {
+    if (query.every((char, j) => target[i + j] === char)) return i;
+  }
+  return -1;
+};
+
+/**
+ * Matches `query` against `target` as a case-insensitive subsequence.
+ * Contiguous runs, prefixes and characters at word boundaries rank higher.
+ * Returns `undefined` when not every character of the query could be matched.
+ */
+export function fuzzyMatch(
+  query: string,
+  target: string,
+): FuzzyMatch | undefined {
+  // lowercased one character at a time, so that the indices still point at
+  // the characters of the target when lowercasing changes their length
+  const q = [...query].map((char) => char.toLowerCase());
+  const t = [...target].map((char) => char.toLowerCase());
+  if (!q.length) return { score: 0, indices: [] };
+
+  const substring = indexOfRun(t, q);
+  if (substring !== -1) {
+    const indices = Array.from({ length: q.length }, (_, i) => substring + i);
+    const score =
+      q.length * 10 +
+      (substring === 0 ? 30 : isWordBoundary(t[substring - 1]) ? 15 : 0) -
+      (t.length - q.length) * 0.1;
+    return { score, indices };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return;
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (isWordBoundary(t[index - 1])) score += 3;
+    if (previous !== undefined) score -= (index - previous - 1) * 0.2;
+    indices.push(index);
+    from = index + 1;
+  }
+  return { score: score - (t.length - q.length) * 0.1, indices };
+}
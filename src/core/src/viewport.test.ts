@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createTestTerminal } from '../../testing/index.js';
+import Viewport from './viewport.js';
+
+const frame = { header: 'title', body: '1\n2\n3\n4\n5', footer: 'end' };
+
+describe('Viewport', () => {
+  it('wraps long lines to the width of the output', () => {
+    const terminal = createTestTerminal({ columns: 10, rows: 5 });
+    const viewport = new Viewport(terminal.output);
+    viewport.render('abcdefghijklmno\nend');
+    expect(terminal.frame()).toBe('abcdefghij\nklmno\nend');
+    expect(viewport.height).toBe(3);
+  });
+
+  it('keeps the header and footer in view', () => {
+    const terminal = createTestTerminal({ columns: 10, rows: 4 });
+    new Viewport(terminal.output).render(frame);
+    expect(terminal.frame()).toBe('title\n4\n5\nend');
+  });
+
+  it('scrolls the body as little as needed to show the focused line', () => {
+    const terminal = createTestTerminal({ columns: 10, rows: 4 });
+    const viewport = new Viewport(terminal.output);
+    viewport.render({ ...frame, focus: 0 });
+    expect(terminal.frame()).toBe('title\n1\n2\nend');
+    viewport.render({ ...frame, focus: 3 });
+    expect(terminal.frame()).toBe('title\n3\n4\nend');
+    viewport.render({ ...frame, focus: 2 });
+    expect(terminal.frame()).toBe('title\n3\n4\nend');
+    viewport.render({ ...frame, focus: 1 });
+    expect(terminal.frame()).toBe('title\n2\n3\nend');
+  });
+
+  it('counts the wrapped lines before the focused one', () => {
+    const terminal = createTestTerminal({ columns: 4, rows: 3 });
+    const viewport = new Viewport(terminal.output);
+    viewport.render({ header: 'top', body: 'abcdefgh\n1\n2', focus: 1 });
+    expect(terminal.frame()).toBe('top\nefgh\n1');
+  });
+
+  it('repaints the frame when the terminal shrinks or grows', () => {
+    const terminal = createTestTerminal({ columns: 20, rows: 6 });
+    const viewport = new Viewport(terminal.output);
+    const text = 'abcdefghijklmno\nend';
+    viewport.render(text);
+    terminal.resize(10, 6);
+    viewport.render(text);
+    expect(terminal.frame()).toBe('abcdefghij\nklmno\nend');
+    terminal.resize(20, 6);
+    viewport.render(text);
+    expect(terminal.frame()).toBe(text);
+  });
+
+  it('shows fewer lines of the body on a shorter terminal', () => {
+    const terminal = createTestTerminal({ columns: 10, rows: 8 });
+    const viewport = new Viewport(terminal.output);
+    viewport.render(frame);
+    expect(terminal.frame()).toBe('title\n1\n2\n3\n4\n5\nend');
+    terminal.resize(10, 4);
+    viewport.render(frame);
+    expect(terminal.screen.lines).toEqual(['title', '4', '5', 'end']);
+  });
+});
@@ -0,0 +1,150 @@
+import { cursor, erase } from 'sisteransi';
+import type { Writable } from 'stream';
+import wrap from 'wrap-ansi';
+import { getColumns, getRows } from './utils.js';
+
+/**
+ * A frame split into parts. When it is taller than the output, the header
+ * and footer stay in view and the body scrolls to its focused line.
+ */
+export interface Frame {
+  header?: string;
+  body: string;
+  footer?: string;
+  /** Line of the body kept in view, the last one by default. */
+  focus?: number;
+}
+
+/** Text of a frame, its parts joined by newlines. */
+export function frameText(frame: string | Frame): string {
+  if (typeof frame === 'string') return frame;
+  return [frame.header, frame.body, frame.footer]
+    .filter((part) => part !== undefined)
+    .join('\n');
+}
+
+const wrapLines = (text: string, columns: number) =>
+  wrap(text, columns, { hard: true }).split('\n');
+
+/**
+ * Draws frames to an output, wrapped to its width and cropped to its
+ * height. Only the lines that changed since the previous frame are
+ * repainted.
+ */
+export default class Viewport {
+  #output: Writable;
+  // lines on screen, and the width they were wrapped to
+  #lines: string[] = [];
+  #columns = 0;
+  // first line of the body in view
+  #scroll = 0;
+
+  constructor(output: Writable) {
+    this.#output = output;
+  }
+
+  get columns(): number {
+    return getColumns(this.#output);
+  }
+
+  get rows(): number {
+    return getRows(this.#output);
+  }
+
+  /**
+   * Rows taken by the frame on screen, once the terminal reflowed it to the
+   * current width.
+   */
+  get height(): number {
+    const columns = this.columns;
+    if (columns === this.#columns) return this.#lines.length;
+    return this.#lines.reduce(
+      (height, line) => height + wrapLines(line, columns).length,
+      0,
+    );
+  }
+
+  /** Lines of the frame that fit the output. */
+  layout(frame: string | Frame): string[] {
+    const { header, body, footer, focus } =
+      typeof frame === 'string' ? ({ body: frame } as Frame) : frame;
+    const { columns, rows } = this;
+    const top = header === undefined ? [] : wrapLines(header, columns);
+    const bottom = footer === undefined ? [] : wrapLines(footer, columns);
+    const lines = wrapLines(body, columns);
+    const space = rows - top.length - bottom.length;
+    if (lines.length <= space) {
+      this.#scroll = 0;
+      return [...top, ...lines, ...bottom];
+    }
+
+    const focused =
+      focus === undefined
+        ? lines.length - 1
+        : focus === 0
+          ? 0
+          : wrapLines(body.split('\n').slice(0, focus).join('\n'), columns)
+              .length;
+    const size = Math.max(space, 1);
+    // scrolls as little as needed to bring the focused line into view
+    if (focused < this.#scroll) this.#scroll = focused;
+    if (focused >= this.#scroll + size) this.#scroll = focused - size + 1;
+    this.#scroll = Math.min(this.#scroll, lines.length - size);
+    // the header gives way when not even a line of the body fits
+    return [
+      ...top,
+      ...lines.slice(this.#scroll, this.#scroll + size),
+      ...bottom,
+    ].slice(-rows);
+  }
+
+  /**
+   * Draws the frame over the previous one, returning false when nothing
+   * changed.
+   */
+  render(frame: string | Frame): boolean {
+    const lines = this.layout(frame);
+    const columns = this.columns;
+    const previous = this.#lines;
+    const resized = previous.length > 0 && columns !== this.#columns;
+    // the top of a frame taller than a terminal that got shorter scrolled
+    // off, the frame is drawn again from the top of the screen
+    const overflows = previous.length > this.rows;
+    let start = 0;
+    if (!resized && !overflows) {
+      while (start < lines.length && lines[start] === previous[start]) start++;
+      if (start === lines.length && start === previous.length) return false;
+      // the cursor rests on the last line of the previous frame
+      start = Math.max(
+        Math.min(start, lines.length - 1, previous.length - 1),
+        0,
+      );
+    }
+    const up = resized ? this.height - 1 : Math.max(previous.length - 1, 0);
+    this.#output.write(cursor.move(-999, start - up));
+    this.#output.write(erase.down());
+    this.#output.write(lines.slice(start).join('\n'));
+    this.#lines = lines;
+    this.#columns = columns;
+    return true;
+  }
+
+  /**
+   * Writes the frame as is, below what is on screen. It is erased like the
+   * frames drawn by `render()`.
+   */
+  write(frame: string): void {
+    this.#output.write(frame);
+    this.#lines = wrapLines(frame, this.columns);
+    this.#columns = this.columns;
+    this.#scroll = 0;
+  }
+
+  /** Erases the frame, the next one is drawn in its place. */
+  clear(): void {
+    this.#output.write(cursor.move(-999, -Math.max(this.height - 1, 0)));
+    this.#output.write(erase.down());
+    this.#lines = [];
+    this.#scroll = 0;
+  }
+}
@@ -0,0 +1,515 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestTerminal, tick } from '../testing/index.js';
+import * as p from './index.js';
+
+describe('custom streams', () => {
+  it('are read interactively', async () => {
+    const terminal = createTestTerminal();
+    const input = new PassThrough();
+    const answer = p.text({ message: 'Name', input, output: terminal.output });
+    input.write('Ann');
+    input.write('\r');
+    expect(await answer).toBe('Ann');
+  });
+
+  it('can be answered non-interactively', async () => {
+    const terminal = createTestTerminal();
+    const answer = p.select({
+      message: 'Pick',
+      options: [{ value: 'a' }, { value: 'b' }],
+      initialValue: 'b',
+      input: terminal.input,
+      output: terminal.output,
+      nonInteractive: true,
+    });
+    expect(await answer).toBe('b');
+  });
+});
+
+describe('timeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts down, then submits the value as it is', async () => {
+    const terminal = createTestTerminal();
+    const answer = p.text({
+      message: 'Name',
+      initialValue: 'ann',
+      timeout: 3000,
+      ...terminal,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(terminal.screen.lines[1]).toBe('◆  Name (3s)');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(terminal.screen.lines[1]).toBe('◆  Name (2s)');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await answer).toBe('ann');
+    expect(terminal.frame()).toBe('│\n◇  Name\n│  ann');
+  });
+
+  it('cancels with the cancel action', async () => {
+    const terminal = createTestTerminal();
+    const answer = p.text({
+      message: 'Name',
+      timeout: 1000,
+      timeoutAction: 'cancel',
+      ...terminal,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(p.isCancel(await answer)).toBe(true);
+  });
+
+  it('stops counting down once a key is pressed', async () => {
+    const terminal = createTestTerminal();
+    let answered = false;
+    const answer = p
+      .text({ message: 'Name', timeout: 2000, ...terminal })
+      .then((value) => {
+        answered = true;
+        return value;
+      });
+    await vi.advanceTimersByTimeAsync(1000);
+    terminal.input.write('x');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(answered).toBe(false);
+    expect(terminal.screen.lines[1]).toBe('◆  Name');
+    terminal.input.write('\r');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await answer).toBe('x');
+  });
+});
+
+describe('spinner', () => {
+  it('is canceled by Ctrl+C on custom streams', async () => {
+    const terminal = createTestTerminal();
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('exited');
+    });
+    const s = p.spinner(terminal);
+    s.start('Working');
+    await terminal.sendKeys('ctrl-c');
+    expect(exit).not.toHaveBeenCalled();
+    exit.mockRestore();
+    expect(terminal.screen.lines).toContain(
+      `${p.defaultTheme.symbols.stepCancel}  Canceled`,
+    );
+  });
+});
+
+describe('theme', () => {
+  afterEach(() => {
+    p.setTheme({});
+  });
+
+  it('draws the prompts with the symbols of the theme', async () => {
+    const terminal = createTestTerminal();
+    p.setTheme({ symbols: { bar: '|', stepSubmit: '+' } });
+    const answer = p.text({ message: 'Name', ...terminal });
+    await terminal.type('ann');
+    await terminal.sendKeys('return');
+    expect(await answer).toBe('ann');
+    expect(terminal.frame()).toBe('|\n+  Name\n|  ann');
+  });
+
+  it('applies the overrides of a call on top of the theme', async () => {
+    const terminal = createTestTerminal();
+    p.setTheme({ symbols: { bar: '|' } });
+    const answer = p.text({
+      message: 'Name',
+      theme: { symbols: { stepSubmit: '+' } },
+      ...terminal,
+    });
+    await terminal.type('ann');
+    await terminal.sendKeys('return');
+    expect(await answer).toBe('ann');
+    expect(terminal.frame()).toBe('|\n+  Name\n|  ann');
+    expect(p.getTheme().symbols.stepSubmit).toBe(
+      p.defaultTheme.symbols.stepSubmit,
+    );
+  });
+});
+
+describe('progress', () => {
+  const { symbols } = p.defaultTheme;
+  const theme = { progress: { filled: '#', empty: '-' } };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fills the bar as the work advances', async () => {
+    const terminal = createTestTerminal();
+    const bar = p.progress({ max: 4, size: 4, theme, ...terminal });
+    bar.start('Copying');
+    bar.advance();
+    await vi.advanceTimersByTimeAsync(p.defaultTheme.spinner.delay);
+    expect(terminal.screen.lines[1]).toMatch(
+      /^.  #---  25% 1\/4 · .+ {2}Copying$/,
+    );
+    bar.set(10, 'Almost');
+    bar.stop('Copied');
+    expect(terminal.frame()).toBe(
+      `│\n${symbols.stepSubmit}  #### 100% 4/4  Copied`,
+    );
+  });
+
+  it('stops with the cancel symbol on Ctrl+C', async () => {
+    const terminal = createTestTerminal();
+    const bar = p.progress({ max: 4, size: 4, theme, ...terminal });
+    bar.start();
+    bar.advance(2);
+    terminal.input.write('\x03');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(terminal.frame()).toBe(
+      `│\n${symbols.stepCancel}  ##--  50% 2/4  Canceled`,
+    );
+  });
+});
+
+describe('groupMultiselect', () => {
+  it('keeps the message and the cursor in view', async () => {
+    const terminal = createTestTerminal({ columns: 40, rows: 8 });
+    const answer = p.groupMultiselect({
+      message: 'Pick',
+      options: {
+        fruits: ['apple', 'banana', 'cherry'].map((value) => ({ value })),
+        vegetables: ['kale', 'leek', 'onion'].map((value) => ({ value })),
+      },
+      ...terminal,
+    });
+    await terminal.sendKeys('down', 'down', 'down', 'down', 'down', 'space');
+    const lines = terminal.screen.lines;
+    expect(lines[1]).toBe('◆  Pick');
+    expect(lines).toContain(
+      `│   ${p.defaultTheme.symbols.checkboxSelected} onion`,
+    );
+    await terminal.sendKeys('return');
+    expect(await answer).toEqual(['onion']);
+  });
+});
+
+describe('editor', () => {
+  it('collapses the lines past the preview', async () => {
+    const terminal = createTestTerminal();
+    const answer = p.editor({
+      message: 'Notes',
+      initialValue: '1\n2\n3\n4\n5',
+      previewLines: 2,
+      // exits without changing the text
+      editor: 'true',
+      ...terminal,
+    });
+    await terminal.sendKeys('return');
+    expect(await answer).toBe('1\n2\n3\n4\n5');
+    expect(terminal.frame()).toBe('│\n◇  Notes\n│  1\n│  2\n│  … 3 more lines');
+  });
+});
+
+describe('multiline', () => {
+  it('shows every line once submitted', async () => {
+    const terminal = createTestTerminal();
+    const answer = p.multiline({ message: 'Notes', maxLines: 3, ...terminal });
+    await terminal.type('one');
+    await terminal.sendKeys('return');
+    await terminal.type('two');
+    await terminal.sendKeys('ctrl-d');
+    expect(await answer).toBe('one\ntwo');
+    expect(terminal.frame()).toBe('│\n◇  Notes\n│  one\n│  two');
+  });
+});
+
+describe('tasks', () => {
+  const { symbols } = p.defaultTheme;
+
+  it('marks the summary of canceled tasks', async () => {
+    const terminal = createTestTerminal();
+    const controller = new AbortController();
+    const summary = p.tasks(
+      [{ title: 'Slow', task: () => new Promise<void>(() => {}) }],
+      { ...terminal, signal: controller.signal },
+    );
+    controller.abort();
+    expect(await summary).toEqual({
+      succeeded: [],
+      failed: [],
+      skipped: ['Slow'],
+      rolledBack: [],
+    });
+    expect(terminal.screen.lines).toContain(
+      `${symbols.stepCancel}  0 succeeded, 1 skipped`,
+    );
+  });
+
+  it('is canceled while asking about a failure', async () => {
+    const terminal = createTestTerminal();
+    const controller = new AbortController();
+    const summary = p.tasks(
+      [
+        {
+          title: 'Build',
+          onError: 'prompt',
+          task: () => {
+            throw new Error('broken');
+          },
+        },
+        { title: 'Deploy', task: () => {} },
+      ],
+      { ...terminal, signal: controller.signal },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(terminal.frame()).toContain('Build failed: broken');
+    controller.abort();
+    expect(await summary).toEqual({
+      succeeded: [],
+      failed: ['Build'],
+      skipped: ['Deploy'],
+      rolledBack: [],
+    });
+    expect(terminal.screen.lines).toContain(
+      `${symbols.stepCancel}  0 succeeded, 1 failed, 1 skipped`,
+    );
+  });
+
+  it('reports the tasks rolled back after a failure', async () => {
+    const terminal = createTestTerminal();
+    const result = p.tasks(
+      [
+        { title: 'Install', task: () => {}, rollback: () => {} },
+        {
+          title: 'Build',
+          task: () => {
+            throw new Error('broken');
+          },
+        },
+      ],
+      terminal,
+    );
+    await expect(result).rejects.toThrow('broken');
+    expect(terminal.screen.lines).toContain(
+      `${symbols.stepError}  0 succeeded, 1 failed, 1 rolled back`,
+    );
+  });
+});
+
+describe('tasks scheduling', () => {
+  // task recording when it starts and ends, finishing on the next tick
+  const tracked = (log: string[], title: string, deps?: string[]) => ({
+    title,
+    dependsOn: deps,
+    task: async () => {
+      log.push(`start ${title}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      log.push(`end ${title}`);
+    },
+  });
+
+  it('runs at most as many tasks as the concurrency', async () => {
+    const terminal = createTestTerminal();
+    const log: string[] = [];
+    await p.tasks(
+      ['a', 'b', 'c'].map((title) => tracked(log, title)),
+      { ...terminal, concurrency: 2 },
+    );
+    expect(log.slice(0, 2)).toEqual(['start a', 'start b']);
+    expect(log.indexOf('start c')).toBeGreaterThan(log.indexOf('end a'));
+  });
+
+  it('rejects a concurrency below 1', async () => {
+    const terminal = createTestTerminal();
+    const task = { title: 'A', task() {} };
+    await expect(
+      p.tasks([task], { ...terminal, concurrency: 0 }),
+    ).rejects.toThrow('The concurrency must be at least 1, got 0');
+    await expect(
+      p.tasks([task], { ...terminal, concurrency: -1 }),
+    ).rejects.toThrow('The concurrency must be at least 1');
+  });
+
+  it('starts a task once the tasks it depends on are done', async () => {
+    const terminal = createTestTerminal();
+    const log: string[] = [];
+    await p.tasks(
+      [
+        tracked(log, 'test', ['build']),
+        tracked(log, 'build'),
+        tracked(log, 'lint'),
+      ],
+      { ...terminal, concurrency: 3 },
+    );
+    expect(log.slice(0, 2)).toEqual(['start build', 'start lint']);
+    expect(log.indexOf('start test')).toBeGreaterThan(log.indexOf('end build'));
+  });
+
+  it('rejects dependency cycles and unknown tasks', async () => {
+    const terminal = createTestTerminal();
+    const log: string[] = [];
+    await expect(
+      p.tasks([tracked(log, 'a', ['b']), tracked(log, 'b', ['a'])], terminal),
+    ).rejects.toThrow('Tasks depend on each other: a -> b -> a');
+    await expect(
+      p.tasks([tracked(log, 'a', ['missing'])], terminal),
+    ).rejects.toThrow('Task "a" depends on unknown task "missing"');
+    expect(log).toEqual([]);
+  });
+});
+
+describe('group', () => {
+  it('erases the previous answer when going back', async () => {
+    const terminal = createTestTerminal({ columns: 40, rows: 20 });
+    const results = p.group(
+      {
+        name: () => p.text({ message: 'Name', ...terminal }),
+        kind: () =>
+          p.select({
+            message: 'Kind',
+            options: [{ value: 'a' }, { value: 'b' }],
+            ...terminal,
+          }),
+      },
+      { backKey: 'shift-tab' },
+    );
+    await terminal.type('bob');
+    await terminal.sendKeys('return', 'shift-tab');
+    expect(terminal.frame()).toBe('│\n◆  Name\n│  bob_\n└');
+    await terminal.sendKeys('return', 'down', 'return');
+    expect(await results).toEqual({ name: 'bob', kind: 'b' });
+    expect(terminal.frame()).toBe('│\n◇  Name\n│  bob\n│\n◇  Kind\n│  b');
+  });
+
+  it('keeps the answers followed by other output when going back', async () => {
+    const terminal = createTestTerminal({ columns: 40, rows: 20 });
+    const results = p.group(
+      {
+        name: async () => {
+          const name = await p.text({ message: 'Name', ...terminal });
+          p.log.info(`Hi ${String(name)}`, terminal);
+          return name;
+        },
+        kind: () =>
+          p.select({
+            message: 'Kind',
+            options: [{ value: 'a' }, { value: 'b' }],
+            ...terminal,
+          }),
+      },
+      { backKey: 'shift-tab' },
+    );
+    await terminal.type('bob');
+    await terminal.sendKeys('return', 'shift-tab');
+    await terminal.type('by');
+    await terminal.sendKeys('return', 'return');
+    expect(await results).toEqual({ name: 'bobby', kind: 'a' });
+    const { info } = p.defaultTheme.symbols;
+    expect(terminal.frame()).toBe(
+      [
+        '│',
+        '◇  Name',
+        '│  bob',
+        '│',
+        `${info}  Hi bob`,
+        '│',
+        '◇  Name',
+        '│  bobby',
+        '│',
+        `${info}  Hi bobby`,
+        '│',
+        '◇  Kind',
+        '│  a',
+      ].join('\n'),
+    );
+  });
+
+  it('asks for the answers of a file that are not valid', async () => {
+    const terminal = createTestTerminal({ columns: 40, rows: 20 });
+    const dir = mkdtempSync(join(tmpdir(), 'clack-answers-'));
+    const file = join(dir, 'answers.json');
+    writeFileSync(file, JSON.stringify({ name: 'bob', age: 'old' }));
+    const results = p.group(
+      {
+        name: () => p.text({ message: 'Name', ...terminal }),
+        age: () =>
+          p.text({
+            message: 'Age',
+            validate: (value) =>
+              /^\d+$/.test(value) ? undefined : 'Enter a number',
+            ...terminal,
+          }),
+      },
+      { answers: file },
+    );
+    await tick();
+    expect(terminal.frame()).toBe(
+      '│  Name (preset) › bob\n│\n▲  Age\n│  old_\n└  Enter a number',
+    );
+    await terminal.sendKeys('backspace', 'backspace', 'backspace');
+    await terminal.type('42');
+    await terminal.sendKeys('return');
+    expect(await results).toEqual({ name: 'bob', age: '42' });
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reviews the answers on its output, masking passwords', async () => {
+    const terminal = createTestTerminal({ columns: 60, rows: 30 });
+    const results = p.group(
+      {
+        secret: () => p.password({ message: 'Secret', ...terminal }),
+        account: () =>
+          p.form({
+            message: 'Account',
+            fields: {
+              user: { type: 'text', message: 'User' },
+              pin: { type: 'password', message: 'PIN' },
+            },
+            ...terminal,
+          }),
+      },
+      { ...terminal, review: true },
+    );
+    await terminal.type('hunter2');
+    await terminal.sendKeys('return');
+    await terminal.type('ann');
+    await terminal.sendKeys('return');
+    await terminal.type('1234');
+    await terminal.sendKeys('return');
+    const { passwordMask } = p.defaultTheme.symbols;
+    expect(terminal.frame()).toContain(`│  Secret: ${passwordMask.repeat(7)}`);
+    expect(terminal.frame()).toContain(
+      `│  Account: User: ann, PIN: ${passwordMask.repeat(4)}`,
+    );
+    await terminal.sendKeys('return');
+    expect(await results).toEqual({
+      secret: 'hunter2',
+      account: { user: 'ann', pin: '1234' },
+    });
+  });
+
+  it('returns a cancel symbol when the review is canceled', async () => {
+    const terminal = createTestTerminal();
+    let canceled = false;
+    const results = p.group(
+      { name: () => p.text({ message: 'Name', ...terminal }) },
+      {
+        ...terminal,
+        review: true,
+        onCancel: () => {
+          canceled = true;
+        },
+      },
+    );
+    await terminal.type('bob');
+    await terminal.sendKeys('return', 'ctrl-c');
+    expect(p.isCancel(await results)).toBe(true);
+    expect(canceled).toBe(true);
+  });
+});
@@ -1,69 +1,153 @@
-import isUnicodeSupported from 'is-unicode-supported';
+import { readFileSync } from 'node:fs';
 import process from 'node:process';
+import type { Readable, Writable } from 'node:stream';
 import color from 'picocolors';
 import { cursor, erase } from 'sisteransi';
 import {
+  AutocompletePrompt,
   ConfirmPrompt,
+  DatePrompt,
+  EditorPrompt,
+  FormPrompt,
+  type FormField,
+  type KeybindingOverrides,
+  type Locale,
+  type LocaleOverrides,
   GroupMultiSelectPrompt,
   MultiSelectPrompt,
+  MultilineTextPrompt,
+  NumberPrompt,
   PasswordPrompt,
+  PathPrompt,
+  type BackKey,
+  type PresetAnswer,
+  type Prompt,
   SelectKeyPrompt,
   SelectPrompt,
   type State,
   TextPrompt,
   block,
+  cancelSymbol,
+  getColumns,
+  getDefaultStreams,
+  getLocale,
+  isBack,
   isCancel,
+  resolveLocale,
+  withBackKey,
+  withPresetAnswer,
+  withPromptListener,
+  withSignal,
 } from '../core/index.js';
+import { type Theme, type ThemeOptions, resolveTheme } from './theme.js';
+
+export {
+  NonInteractiveError,
+  defaultKeybindings,
+  defaultLocale,
+  getKeybindings,
+  getLocale,
+  isBack,
+  isCancel,
+  setDefaultStreams,
+  setKeybindings,
+  setLocale,
+} from '../core/index.js';
+export type {
+  Action,
+  BackKey,
+  KeybindingOverrides,
+  Keybindings,
+  Locale,
+  LocaleOverrides,
+  Streams,
+} from '../core/index.js';
+export { createTheme, defaultTheme, getTheme, setTheme } from './theme.js';
+export type { Colorize, Theme, ThemeOptions, ThemeOverrides } from './theme.js';
 
-export { isCancel } from '../core/index.js';
-
-const unicode = isUnicodeSupported();
-const s = (c: string, fallback: string) => (unicode ? c : fallback);
-const S_STEP_ACTIVE = s('◆', '*');
-const S_STEP_CANCEL = s('■', 'x');
-const S_STEP_ERROR = s('▲', 'x');
-const S_STEP_SUBMIT = s('◇', 'o');
-
-const S_BAR_START = s('┌', 'T');
-const S_BAR = s('│', '|');
-const S_BAR_END = s('└', '—');
-
-const S_RADIO_ACTIVE = s('●', '>');
-const S_RADIO_INACTIVE = s('○', ' ');
-const S_CHECKBOX_ACTIVE = s('◻', '[•]');
-const S_CHECKBOX_SELECTED = s('◼', '[+]');
-const S_CHECKBOX_INACTIVE = s('◻', '[ ]');
-const S_PASSWORD_MASK = s('▪', '•');
-
-const S_BAR_H = s('─', '-');
-const S_CORNER_TOP_RIGHT = s('╮', '+');
-const S_CONNECT_LEFT = s('├', '+');
-const S_CORNER_BOTTOM_RIGHT = s('╯', '+');
-
-const S_INFO = s('●', '•');
-const S_SUCCESS = s('◆', '*');
-const S_WARN = s('▲', '!');
-const S_ERROR = s('■', 'x');
-
-const symbol = (state: State) => {
+const symbol = (state: State, { symbols, colors, spinner }: Theme) => {
   switch (state) {
     case 'initial':
     case 'active':
-      return color.cyan(S_STEP_ACTIVE);
+      return colors.state[state](symbols.stepActive);
+    case 'validating': {
+      const frame = Math.floor(Date.now() / spinner.delay);
+      return colors.state.validating(
+        spinner.frames[frame % spinner.frames.length]!,
+      );
+    }
     case 'cancel':
-      return color.red(S_STEP_CANCEL);
+      return colors.state.cancel(symbols.stepCancel);
     case 'error':
-      return color.yellow(S_STEP_ERROR);
+      return colors.state.error(symbols.stepError);
     case 'submit':
-      return color.green(S_STEP_SUBMIT);
+      return colors.state.submit(symbols.stepSubmit);
+  }
+};
+
+/**
+ * Leading part of a submitted frame. Answers that were not entered by the
+ * user are collapsed into a single static line.
+ */
+const submitPrefix = (
+  prompt: Pick<Prompt, 'answeredFrom'>,
+  message: string,
+  theme: Theme,
+  locale: Locale,
+) => {
+  const { symbols, colors } = theme;
+  switch (prompt.answeredFrom) {
+    case 'preset':
+      return `${colors.gutter(symbols.bar)}  ${colors.muted(`${message} ${locale.preset} ›`)} `;
+    case 'default':
+      return `${symbol('submit', theme)}  ${message} ${colors.muted('›')} `;
+    default:
+      return `${colors.gutter(symbols.bar)}\n${symbol('submit', theme)}  ${message}\n${colors.gutter(symbols.bar)}  `;
   }
 };
 
+export interface CommonOptions extends ThemeOptions {
+  /** Stream to read keypresses from, see `setDefaultStreams()`. */
+  input?: Readable;
+  /** Stream to write to, see `setDefaultStreams()`. */
+  output?: Writable;
+  /** Cancels the prompt, or stops the spinner, when aborted. */
+  signal?: AbortSignal;
+  /** Keys bound to the actions of the prompt, see `setKeybindings()`. */
+  keybindings?: KeybindingOverrides;
+  /** Text of the prompt, see `setLocale()`. */
+  locale?: LocaleOverrides;
+  /**
+   * Answers the prompt from its initial or default value instead of waiting
+   * for keys. Only a stdin that is not a TTY is non-interactive by default.
+   */
+  nonInteractive?: boolean;
+}
+
+export interface TimeoutOptions {
+  /**
+   * Milliseconds to wait for an answer, counted down next to the message
+   * until the user presses a key.
+   */
+  timeout?: number;
+  /** Submits the current value, by default, or cancels on timeout. */
+  timeoutAction?: 'submit' | 'cancel';
+}
+
+/** Seconds left before the prompt times out, shown after its message. */
+const countdown = (prompt: Pick<Prompt, 'countdown'>, theme: Theme) =>
+  prompt.countdown === undefined
+    ? ''
+    : ` ${theme.colors.muted(`(${prompt.countdown}s)`)}`;
+
 interface LimitOptionsParams<TOption> {
   options: TOption[];
   maxItems: number | undefined;
   cursor: number;
   style: (option: TOption, active: boolean) => string;
+  /** Height of the output the options are rendered to. */
+  rows: number;
+  theme: Theme;
 }
 
 const limitOptions = <TOption>(
@@ -72,7 +156,7 @@ const limitOptions = <TOption>(
   const { cursor, options, style } = params;
 
   const paramMaxItems = params.maxItems ?? Infinity;
-  const outputMaxItems = Math.max(process.stdout.rows - 4, 0);
+  const outputMaxItems = Math.max(params.rows - 4, 0);
   // We clamp to minimum 5 because anything less doesn't make sense UX wise
   const maxItems = Math.min(outputMaxItems, Math.max(paramMaxItems, 5));
   let slidingWindowLocation = 0;
@@ -98,116 +182,498 @@ const limitOptions = <TOption>(
       const isTopLimit = i === 0 && shouldRenderTopEllipsis;
       const isBottomLimit = i === arr.length - 1 && shouldRenderBottomEllipsis;
       return isTopLimit || isBottomLimit
-        ? color.dim('...')
+        ? params.theme.colors.muted('...')
         : style(option, i + slidingWindowLocation === cursor);
     });
 };
 
-export interface TextOptions {
+export interface TextOptions extends CommonOptions, TimeoutOptions {
   message: string;
   placeholder?: string;
   defaultValue?: string;
   initialValue?: string;
-  validate?: (value: string) => string | void;
+  validate?: (value: string) => string | void | Promise<string | void>;
 }
 export const text = (opts: TextOptions): Promise<string | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
   return new TextPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     validate: opts.validate,
     placeholder: opts.placeholder,
     defaultValue: opts.defaultValue,
     initialValue: opts.initialValue,
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
       const placeholder = opts.placeholder
         ? color.inverse(opts.placeholder[0]) +
-          color.dim(opts.placeholder.slice(1))
+          colors.muted(opts.placeholder.slice(1))
         : color.inverse(color.hidden('_'));
       const value = !this.value ? placeholder : this.valueWithCursor;
 
       switch (this.state) {
         case 'error':
-          return `${title.trim()}\n${color.yellow(
-            S_BAR,
-          )}  ${value}\n${color.yellow(S_BAR_END)}  ${color.yellow(this.error)}\n`;
+          return `${title.trim()}\n${colors.state.error(symbols.bar)}  ${value}\n${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}\n`;
         case 'submit':
-          return `${title}${color.gray(S_BAR)}  ${color.dim(this.value || opts.placeholder)}`;
+          return `${submitPrefix(this, opts.message, theme, locale)}${styles.selected(this.value || opts.placeholder)}`;
         case 'cancel':
-          return `${title}${color.gray(S_BAR)}  ${color.strikethrough(
-            color.dim(this.value ?? ''),
-          )}${this.value?.trim() ? '\n' + color.gray(S_BAR) : ''}`;
+          return `${title}${colors.gutter(symbols.bar)}  ${styles.cancelled(this.value ?? '')}${this.value?.trim() ? '\n' + colors.gutter(symbols.bar) : ''}`;
         default:
-          return `${title}${color.cyan(S_BAR)}  ${value}\n${color.cyan(S_BAR_END)}\n`;
+          return `${title}${colors.state.active(symbols.bar)}  ${value}\n${colors.state.active(symbols.barEnd)}\n`;
+      }
+    },
+  }).prompt();
+};
+
+export interface PathOptions extends CommonOptions, TimeoutOptions {
+  message: string;
+  placeholder?: string;
+  initialValue?: string;
+  /** Directory paths are resolved against, and must stay within. */
+  root?: string;
+  onlyDirectories?: boolean;
+  /** Extensions of the files that can be picked, such as `.json`. */
+  extensions?: string[];
+  /** Whether the path must exist, true by default. */
+  mustExist?: boolean;
+  maxItems?: number;
+  validate?: (value: string) => string | void | Promise<string | void>;
+}
+export const path = (opts: PathOptions): Promise<string | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  return new PathPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    validate: opts.validate,
+    placeholder: opts.placeholder,
+    initialValue: opts.initialValue,
+    root: opts.root,
+    onlyDirectories: opts.onlyDirectories,
+    extensions: opts.extensions,
+    mustExist: opts.mustExist,
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const placeholder = opts.placeholder
+        ? color.inverse(opts.placeholder[0]) +
+          colors.muted(opts.placeholder.slice(1))
+        : color.inverse(color.hidden('_'));
+      const value = !this.value ? placeholder : this.valueWithCursor;
+
+      switch (this.state) {
+        case 'submit':
+          return `${submitPrefix(this, opts.message, theme, locale)}${styles.selected(this.value)}`;
+        case 'cancel':
+          return `${title}${colors.gutter(symbols.bar)}  ${styles.cancelled(this.value ?? '')}${this.value?.trim() ? '\n' + colors.gutter(symbols.bar) : ''}`;
+        default: {
+          const bar = colors.state[this.state];
+          const candidates = limitOptions({
+            cursor: this.cursor,
+            options: this.candidates,
+            maxItems: opts.maxItems,
+            rows: this.rows,
+            theme,
+            style: (candidate, active) =>
+              active
+                ? `${styles.radioActive(symbols.radioActive)} ${styles.active(candidate)}`
+                : `${styles.radioInactive(symbols.radioInactive)} ${colors.muted(candidate)}`,
+          });
+          const footer =
+            this.state === 'error'
+              ? `${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}`
+              : colors.state.active(symbols.barEnd);
+          return `${title}${bar(symbols.bar)}  ${value}\n${candidates
+            .map((line) => `${bar(symbols.bar)}  ${line}\n`)
+            .join('')}${footer}\n`;
+        }
       }
     },
   }).prompt();
 };
 
-export interface PasswordOptions {
+export interface NumberOptions extends CommonOptions, TimeoutOptions {
+  message: string;
+  placeholder?: string;
+  defaultValue?: number;
+  initialValue?: number;
+  min?: number;
+  max?: number;
+  /** Amount added or removed by the up and down arrows, 1 by default. */
+  step?: number;
+  /** Only accepts whole numbers. */
+  integer?: boolean;
+  validate?: (value: number) => string | void | Promise<string | void>;
+}
+export const number = (opts: NumberOptions): Promise<number | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  return new NumberPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    validate: opts.validate,
+    defaultValue: opts.defaultValue,
+    initialValue: opts.initialValue,
+    min: opts.min,
+    max: opts.max,
+    step: opts.step,
+    integer: opts.integer,
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const placeholder = opts.placeholder
+        ? color.inverse(opts.placeholder[0]) +
+          colors.muted(opts.placeholder.slice(1))
+        : color.inverse(color.hidden('_'));
+      const value = !this.userInput ? placeholder : this.valueWithCursor;
+
+      switch (this.state) {
+        case 'error':
+          return `${title.trim()}\n${colors.state.error(symbols.bar)}  ${value}\n${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}\n`;
+        case 'submit':
+          return `${submitPrefix(this, opts.message, theme, locale)}${styles.selected(this.valueWithCursor)}`;
+        case 'cancel':
+          return `${title}${colors.gutter(symbols.bar)}  ${styles.cancelled(this.userInput)}${this.userInput ? '\n' + colors.gutter(symbols.bar) : ''}`;
+        default:
+          return `${title}${colors.state.active(symbols.bar)}  ${value}\n${colors.state.active(symbols.barEnd)}\n`;
+      }
+    },
+  }).prompt() as Promise<number | symbol>;
+};
+
+export interface PasswordOptions extends CommonOptions, TimeoutOptions {
   message: string;
   mask?: string;
-  validate?: (value: string) => string | void;
+  validate?: (value: string) => string | void | Promise<string | void>;
 }
 export const password = (opts: PasswordOptions): Promise<string | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
   return new PasswordPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     validate: opts.validate,
-    mask: opts.mask ?? S_PASSWORD_MASK,
+    mask: opts.mask ?? symbols.passwordMask,
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
       const value = this.valueWithCursor;
       const masked = this.masked;
 
       switch (this.state) {
         case 'error':
-          return `${title.trim()}\n${color.yellow(
-            S_BAR,
-          )}  ${masked}\n${color.yellow(S_BAR_END)}  ${color.yellow(this.error)}\n`;
+          return `${title.trim()}\n${colors.state.error(symbols.bar)}  ${masked}\n${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}\n`;
         case 'submit':
-          return `${title}${color.gray(S_BAR)}  ${color.dim(masked)}`;
+          return `${submitPrefix(this, opts.message, theme, locale)}${styles.selected(masked)}`;
+        case 'cancel':
+          return `${title}${colors.gutter(symbols.bar)}  ${styles.cancelled(masked ?? '')}${masked ? '\n' + colors.gutter(symbols.bar) : ''}`;
+        default:
+          return `${title}${colors.state.active(symbols.bar)}  ${value}\n${colors.state.active(symbols.barEnd)}\n`;
+      }
+    },
+  }).prompt();
+};
+
+export interface MultilineOptions extends CommonOptions, TimeoutOptions {
+  message: string;
+  placeholder?: string;
+  defaultValue?: string;
+  initialValue?: string;
+  /** Chord submitting the text, `ctrl-d` by default. Enter inserts a newline. */
+  submitKey?: 'ctrl-d' | 'alt-enter';
+  maxLines?: number;
+  validate?: (value: string) => string | void | Promise<string | void>;
+}
+export const multiline = (opts: MultilineOptions): Promise<string | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  return new MultilineTextPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    validate: opts.validate,
+    placeholder: opts.placeholder,
+    defaultValue: opts.defaultValue,
+    initialValue: opts.initialValue,
+    submitKey: opts.submitKey,
+    maxLines: opts.maxLines,
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const placeholder = opts.placeholder
+        ? color.inverse(opts.placeholder[0]) +
+          colors.muted(opts.placeholder.slice(1))
+        : color.inverse(color.hidden('_'));
+      const value = !this.value ? placeholder : this.valueWithCursor;
+      const withGutter = (bar: string, lines: string[]) =>
+        lines.map((ln) => `${bar}  ${ln}`).join('\n');
+      const hint = colors.muted(
+        locale.multilineHint(
+          this.submitKey === 'alt-enter' ? 'alt+enter' : 'ctrl+d',
+          this.lines.length,
+          this.maxLines,
+        ),
+      );
+
+      switch (this.state) {
+        case 'error':
+          return {
+            header: title.trim(),
+            body: withGutter(
+              colors.state.error(symbols.bar),
+              value.split('\n'),
+            ),
+            footer: `${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}\n`,
+            focus: this.position.line,
+          };
+        case 'submit': {
+          const [first, ...rest] = this.lines.map((ln) => styles.selected(ln));
+          return `${submitPrefix(this, opts.message, theme, locale)}${first}${rest
+            .map((ln) => `\n${colors.gutter(symbols.bar)}  ${ln}`)
+            .join('')}`;
+        }
+        case 'cancel':
+          return `${title}${withGutter(
+            colors.gutter(symbols.bar),
+            this.lines.map((ln) => styles.cancelled(ln)),
+          )}${this.value.trim() ? '\n' + colors.gutter(symbols.bar) : ''}`;
+        default:
+          // long texts scroll to the line being edited
+          return {
+            header: title.trim(),
+            body: withGutter(
+              colors.state.active(symbols.bar),
+              value.split('\n'),
+            ),
+            footer: `${colors.state.active(symbols.barEnd)}  ${hint}\n`,
+            focus: this.position.line,
+          };
+      }
+    },
+  }).prompt();
+};
+
+export interface EditorOptions extends CommonOptions, TimeoutOptions {
+  message: string;
+  initialValue?: string;
+  /** Extension of the temporary file, `.txt` by default. */
+  extension?: string;
+  /** Command to run, `$VISUAL` or `$EDITOR` by default. */
+  editor?: string;
+  /** Number of lines of the text shown below the message. */
+  previewLines?: number;
+  validate?: (value: string) => string | void | Promise<string | void>;
+}
+export const editor = (opts: EditorOptions): Promise<string | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  const previewLines = opts.previewLines ?? 3;
+  return new EditorPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    validate: opts.validate,
+    initialValue: opts.initialValue,
+    extension: opts.extension,
+    editor: opts.editor,
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const preview = (style: (line: string) => string = (ln) => ln) => {
+        const lines = this.lines.slice(0, previewLines).map(style);
+        if (this.lines.length > previewLines) {
+          lines.push(
+            colors.muted(locale.moreLines(this.lines.length - previewLines)),
+          );
+        }
+        return lines;
+      };
+      const withGutter = (bar: string, lines: string[]) =>
+        lines.map((ln) => `${bar}  ${ln}\n`).join('');
+      const name = this.editor.split(/\s+/)[0];
+
+      switch (this.state) {
+        case 'error':
+          return `${title.trim()}\n${withGutter(colors.state.error(symbols.bar), preview())}${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)} ${colors.muted(locale.editorRetry)}\n`;
+        case 'submit': {
+          const [first = '', ...rest] = preview(styles.selected);
+          return `${submitPrefix(this, opts.message, theme, locale)}${first}${rest
+            .map((ln) => `\n${colors.gutter(symbols.bar)}  ${ln}`)
+            .join('')}`;
+        }
         case 'cancel':
-          return `${title}${color.gray(S_BAR)}  ${color.strikethrough(
-            color.dim(masked ?? ''),
-          )}${masked ? '\n' + color.gray(S_BAR) : ''}`;
+          return `${title}${withGutter(colors.gutter(symbols.bar), preview(styles.cancelled))}${colors.gutter(symbols.bar)}`;
         default:
-          return `${title}${color.cyan(S_BAR)}  ${value}\n${color.cyan(S_BAR_END)}\n`;
+          return `${title}${withGutter(colors.state.active(symbols.bar), preview())}${colors.state.active(symbols.barEnd)}  ${colors.muted(locale.editorOpen(name!))}\n`;
       }
     },
   }).prompt();
 };
 
-export interface ConfirmOptions {
+export interface DateOptions extends CommonOptions, TimeoutOptions {
+  message: string;
+  initialValue?: Date;
+  min?: Date;
+  max?: Date;
+  /**
+   * Layout of the input, where `YYYY`, `MM`, `DD`, `HH` and `mm` are
+   * replaced by the segments. `YYYY-MM-DD` by default.
+   */
+  format?: string;
+  /** Shows the days of the month below the input. */
+  calendar?: boolean;
+  validate?: (value: Date) => string | void | Promise<string | void>;
+}
+
+export const date = (opts: DateOptions): Promise<Date | symbol> => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  return new DatePrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    validate: opts.validate,
+    initialValue: opts.initialValue,
+    min: opts.min,
+    max: opts.max,
+    format: opts.format,
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const value = this.parts
+        .map(({ text, segment, active }) =>
+          active ? color.inverse(text) : segment ? text : colors.muted(text),
+        )
+        .join('');
+      const calendar = () => {
+        const days = this.weeks.map((week) =>
+          week
+            .map((day) => {
+              if (day === undefined) return '  ';
+              const text = String(day).padStart(2);
+              if (day === this.value.getDate()) return color.inverse(text);
+              return this.isDayInRange(day) ? text : colors.muted(text);
+            })
+            .join(' '),
+        );
+        return [
+          '',
+          `${locale.months[this.value.getMonth()]} ${this.value.getFullYear()}`,
+          colors.muted(locale.weekdays.join(' ')),
+          ...days,
+        ];
+      };
+      const body = (bar: string) =>
+        [value, ...(opts.calendar ? calendar() : [])]
+          .map((ln) => `${bar}  ${ln}`.trimEnd())
+          .join('\n');
+
+      switch (this.state) {
+        case 'error':
+          return `${title.trim()}\n${body(colors.state.error(symbols.bar))}\n${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}\n`;
+        case 'submit':
+          return `${submitPrefix(this, opts.message, theme, locale)}${styles.selected(this.text)}`;
+        case 'cancel':
+          return `${title}${colors.gutter(symbols.bar)}  ${styles.cancelled(this.text)}\n${colors.gutter(symbols.bar)}`;
+        default:
+          return `${title}${body(colors.state.active(symbols.bar))}\n${colors.state.active(symbols.barEnd)}  ${colors.muted(locale.dateHint)}\n`;
+      }
+    },
+  }).prompt() as Promise<Date | symbol>;
+};
+
+export interface ConfirmOptions extends CommonOptions, TimeoutOptions {
   message: string;
   active?: string;
   inactive?: string;
   initialValue?: boolean;
 }
 export const confirm = (opts: ConfirmOptions) => {
-  const active = opts.active ?? 'Yes';
-  const inactive = opts.inactive ?? 'No';
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  const active = opts.active ?? locale.yes;
+  const inactive = opts.inactive ?? locale.no;
   return new ConfirmPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     active,
     inactive,
     initialValue: opts.initialValue ?? true,
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
       const value = this.value ? active : inactive;
 
       switch (this.state) {
         case 'submit':
-          return `${title}${color.gray(S_BAR)}  ${color.dim(value)}`;
+          return `${submitPrefix(this, opts.message, theme, locale)}${styles.selected(value)}`;
         case 'cancel':
-          return `${title}${color.gray(S_BAR)}  ${color.strikethrough(
-            color.dim(value),
-          )}\n${color.gray(S_BAR)}`;
+          return `${title}${colors.gutter(symbols.bar)}  ${styles.cancelled(value)}\n${colors.gutter(symbols.bar)}`;
         default: {
-          return `${title}${color.cyan(S_BAR)}  ${
+          return `${title}${colors.state.active(symbols.bar)}  ${
             this.value
-              ? `${color.green(S_RADIO_ACTIVE)} ${active}`
-              : `${color.dim(S_RADIO_INACTIVE)} ${color.dim(active)}`
-          } ${color.dim('/')} ${
+              ? `${styles.radioActive(symbols.radioActive)} ${styles.active(active)}`
+              : `${styles.radioInactive(symbols.radioInactive)} ${styles.inactive(active)}`
+          } ${colors.muted('/')} ${
             !this.value
-              ? `${color.green(S_RADIO_ACTIVE)} ${inactive}`
-              : `${color.dim(S_RADIO_INACTIVE)} ${color.dim(inactive)}`
-          }\n${color.cyan(S_BAR_END)}\n`;
+              ? `${styles.radioActive(symbols.radioActive)} ${styles.active(inactive)}`
+              : `${styles.radioInactive(symbols.radioInactive)} ${styles.inactive(inactive)}`
+          }\n${colors.state.active(symbols.barEnd)}\n`;
         }
       }
     },
@@ -220,7 +686,7 @@ type Option<Value> = Value extends Primitive
   ? { value: Value; label?: string; hint?: string }
   : { value: Value; label: string; hint?: string };
 
-export interface SelectOptions<Value> {
+export interface SelectOptions<Value> extends CommonOptions, TimeoutOptions {
   message: string;
   options: Array<Option<Value>>;
   initialValue?: Value;
@@ -228,6 +694,9 @@ export interface SelectOptions<Value> {
 }
 
 export const select = <Value>(opts: SelectOptions<Value>) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
   const opt = (
     option: Option<Value>,
     state: 'inactive' | 'active' | 'selected' | 'cancelled',
@@ -235,39 +704,52 @@ export const select = <Value>(opts: SelectOptions<Value>) => {
     const label = option.label ?? String(option.value);
     switch (state) {
       case 'selected':
-        return color.dim(label);
+        return styles.selected(label);
       case 'active':
-        return `${color.green(S_RADIO_ACTIVE)} ${label} ${
-          option.hint ? color.dim(`(${option.hint})`) : ''
+        return `${styles.radioActive(symbols.radioActive)} ${styles.active(label)} ${
+          option.hint ? styles.hint(`(${option.hint})`) : ''
         }`;
       case 'cancelled':
-        return color.strikethrough(color.dim(label));
+        return styles.cancelled(label);
       default:
-        return `${color.dim(S_RADIO_INACTIVE)} ${color.dim(label)}`;
+        return `${styles.radioInactive(symbols.radioInactive)} ${styles.inactive(label)}`;
     }
   };
 
   return new SelectPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     options: opts.options,
     initialValue: opts.initialValue,
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
 
       switch (this.state) {
         case 'submit':
-          return `${title}${color.gray(S_BAR)}  ${opt(this.options[this.cursor]!, 'selected')}`;
+          return `${submitPrefix(this, opts.message, theme, locale)}${opt(this.options[this.cursor]!, 'selected')}`;
         case 'cancel':
-          return `${title}${color.gray(S_BAR)}  ${opt(
+          return `${title}${colors.gutter(symbols.bar)}  ${opt(
             this.options[this.cursor]!,
             'cancelled',
-          )}\n${color.gray(S_BAR)}`;
+          )}\n${colors.gutter(symbols.bar)}`;
         default: {
-          return `${title}${color.cyan(S_BAR)}  ${limitOptions({
+          return `${title}${colors.state.active(symbols.bar)}  ${limitOptions({
             cursor: this.cursor,
             options: this.options,
             maxItems: opts.maxItems,
+            rows: this.rows,
+            theme,
             style: (item, active) => opt(item, active ? 'active' : 'inactive'),
-          }).join(`\n${color.cyan(S_BAR)}  `)}\n${color.cyan(S_BAR_END)}\n`;
+          }).join(
+            `\n${colors.state.active(symbols.bar)}  `,
+          )}\n${colors.state.active(symbols.barEnd)}\n`;
         }
       }
     },
@@ -275,55 +757,68 @@ export const select = <Value>(opts: SelectOptions<Value>) => {
 };
 
 export const selectKey = <Value extends string>(opts: SelectOptions<Value>) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
   const opt = (
     option: Option<Value>,
     state: 'inactive' | 'active' | 'selected' | 'cancelled' = 'inactive',
   ) => {
     const label = option.label ?? String(option.value);
     if (state === 'selected') {
-      return color.dim(label);
+      return styles.selected(label);
     } else if (state === 'cancelled') {
-      return color.strikethrough(color.dim(label));
+      return styles.cancelled(label);
     } else if (state === 'active') {
-      return `${color.bgCyan(color.gray(` ${option.value} `))} ${label} ${
-        option.hint ? color.dim(`(${option.hint})`) : ''
+      return `${styles.keyActive(` ${option.value} `)} ${styles.active(label)} ${
+        option.hint ? styles.hint(`(${option.hint})`) : ''
       }`;
     }
-    return `${color.gray(
-      color.bgWhite(color.inverse(` ${option.value} `)),
-    )} ${label} ${option.hint ? color.dim(`(${option.hint})`) : ''}`;
+    return `${styles.keyInactive(` ${option.value} `)} ${label} ${option.hint ? styles.hint(`(${option.hint})`) : ''}`;
   };
 
   return new SelectKeyPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     options: opts.options,
     initialValue: opts.initialValue,
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
 
       switch (this.state) {
         case 'submit':
-          return `${title}${color.gray(S_BAR)}  ${opt(
+          return `${submitPrefix(this, opts.message, theme, locale)}${opt(
             this.options.find((opt) => opt.value === this.value)!,
             'selected',
           )}`;
         case 'cancel':
-          return `${title}${color.gray(S_BAR)}  ${opt(
+          return `${title}${colors.gutter(symbols.bar)}  ${opt(
             this.options[0]!,
             'cancelled',
-          )}\n${color.gray(S_BAR)}`;
+          )}\n${colors.gutter(symbols.bar)}`;
         default: {
-          return `${title}${color.cyan(S_BAR)}  ${this.options
+          return `${title}${colors.state.active(symbols.bar)}  ${this.options
             .map((option, i) =>
               opt(option, i === this.cursor ? 'active' : 'inactive'),
             )
-            .join(`\n${color.cyan(S_BAR)}  `)}\n${color.cyan(S_BAR_END)}\n`;
+            .join(
+              `\n${colors.state.active(symbols.bar)}  `,
+            )}\n${colors.state.active(symbols.barEnd)}\n`;
         }
       }
     },
   }).prompt() as Promise<Value | symbol>;
 };
 
-export interface MultiSelectOptions<Value> {
+export interface MultiSelectOptions<Value>
+  extends CommonOptions, TimeoutOptions {
   message: string;
   options: Array<Option<Value>>;
   initialValues?: Value[];
@@ -332,6 +827,9 @@ export interface MultiSelectOptions<Value> {
   cursorAt?: Value;
 }
 export const multiselect = <Value>(opts: MultiSelectOptions<Value>) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
   const opt = (
     option: Option<Value>,
     state:
@@ -344,40 +842,50 @@ export const multiselect = <Value>(opts: MultiSelectOptions<Value>) => {
   ) => {
     const label = option.label ?? String(option.value);
     if (state === 'active') {
-      return `${color.cyan(S_CHECKBOX_ACTIVE)} ${label} ${
-        option.hint ? color.dim(`(${option.hint})`) : ''
+      return `${styles.checkboxActive(symbols.checkboxActive)} ${styles.active(label)} ${
+        option.hint ? styles.hint(`(${option.hint})`) : ''
       }`;
     } else if (state === 'selected') {
-      return `${color.green(S_CHECKBOX_SELECTED)} ${color.dim(label)}`;
+      return `${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.inactive(label)}`;
     } else if (state === 'cancelled') {
-      return color.strikethrough(color.dim(label));
+      return styles.cancelled(label);
     } else if (state === 'active-selected') {
-      return `${color.green(S_CHECKBOX_SELECTED)} ${label} ${
-        option.hint ? color.dim(`(${option.hint})`) : ''
+      return `${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.active(label)} ${
+        option.hint ? styles.hint(`(${option.hint})`) : ''
       }`;
     } else if (state === 'submitted') {
-      return color.dim(label);
+      return styles.selected(label);
     }
-    return `${color.dim(S_CHECKBOX_INACTIVE)} ${color.dim(label)}`;
+    return `${styles.checkboxInactive(symbols.checkboxInactive)} ${styles.inactive(label)}`;
   };
 
   return new MultiSelectPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     options: opts.options,
     initialValues: opts.initialValues,
     required: opts.required ?? true,
     cursorAt: opts.cursorAt,
     validate(selected: Value[]) {
       if (this.required && selected.length === 0)
-        return `Please select at least one option.\n${color.reset(
-          color.dim(
-            `Press ${color.gray(color.bgWhite(color.inverse(' space ')))} to select, ${color.gray(
-              color.bgWhite(color.inverse(' enter ')),
-            )} to submit`,
+        return `${locale.selectAtLeastOne}\n${color.reset(
+          colors.muted(
+            locale.selectHint(
+              styles.keyInactive(' space '),
+              styles.keyInactive(' enter '),
+            ),
           ),
         )}`;
     },
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
 
       const styleOption = (option: Option<Value>, active: boolean) => {
         const selected = this.value.includes(option.value);
@@ -392,20 +900,20 @@ export const multiselect = <Value>(opts: MultiSelectOptions<Value>) => {
 
       switch (this.state) {
         case 'submit': {
-          return `${title}${color.gray(S_BAR)}  ${
+          return `${submitPrefix(this, opts.message, theme, locale)}${
             this.options
               .filter(({ value }) => this.value.includes(value))
               .map((option) => opt(option, 'submitted'))
-              .join(color.dim(', ')) || color.dim('none')
+              .join(colors.muted(', ')) || colors.muted(locale.none)
           }`;
         }
         case 'cancel': {
           const label = this.options
             .filter(({ value }) => this.value.includes(value))
             .map((option) => opt(option, 'cancelled'))
-            .join(color.dim(', '));
-          return `${title}${color.gray(S_BAR)}  ${
-            label.trim() ? `${label}\n${color.gray(S_BAR)}` : ''
+            .join(colors.muted(', '));
+          return `${title}${colors.gutter(symbols.bar)}  ${
+            label.trim() ? `${label}\n${colors.gutter(symbols.bar)}` : ''
           }`;
         }
         case 'error': {
@@ -413,39 +921,46 @@ export const multiselect = <Value>(opts: MultiSelectOptions<Value>) => {
             .split('\n')
             .map((ln, i) =>
               i === 0
-                ? `${color.yellow(S_BAR_END)}  ${color.yellow(ln)}`
+                ? `${colors.state.error(symbols.barEnd)}  ${colors.state.error(ln)}`
                 : `   ${ln}`,
             )
             .join('\n');
           return (
             title +
-            color.yellow(S_BAR) +
+            colors.state.error(symbols.bar) +
             '  ' +
             limitOptions({
               options: this.options,
               cursor: this.cursor,
               maxItems: opts.maxItems,
+              rows: this.rows,
+              theme,
               style: styleOption,
-            }).join(`\n${color.yellow(S_BAR)}  `) +
+            }).join(`\n${colors.state.error(symbols.bar)}  `) +
             '\n' +
             footer +
             '\n'
           );
         }
         default: {
-          return `${title}${color.cyan(S_BAR)}  ${limitOptions({
+          return `${title}${colors.state.active(symbols.bar)}  ${limitOptions({
             options: this.options,
             cursor: this.cursor,
             maxItems: opts.maxItems,
+            rows: this.rows,
+            theme,
             style: styleOption,
-          }).join(`\n${color.cyan(S_BAR)}  `)}\n${color.cyan(S_BAR_END)}\n`;
+          }).join(
+            `\n${colors.state.active(symbols.bar)}  `,
+          )}\n${colors.state.active(symbols.barEnd)}\n`;
         }
       }
     },
   }).prompt() as Promise<Value[] | symbol>;
 };
 
-export interface GroupMultiSelectOptions<Value> {
+export interface GroupMultiSelectOptions<Value>
+  extends CommonOptions, TimeoutOptions {
   message: string;
   options: Record<string, Array<Option<Value>>>;
   initialValues?: Value[];
@@ -458,6 +973,9 @@ export interface GroupMultiSelectOptions<Value> {
 export const groupMultiselect = <Value>(
   opts: GroupMultiSelectOptions<Value>,
 ) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
   const { selectableGroups = false, spacedGroups = false } = opts;
   const opt = (
     option: Option<Value>,
@@ -480,39 +998,44 @@ export const groupMultiselect = <Value>(
     const isLast = isItem && next.group === true;
     const prefix = isItem
       ? selectableGroups
-        ? `${isLast ? S_BAR_END : S_BAR} `
+        ? `${isLast ? symbols.barEnd : symbols.bar} `
         : ' '
       : '';
     const spacingPrefix =
-      spacedGroups && !isItem ? `\n${color.cyan(S_BAR)}  ` : '';
+      spacedGroups && !isItem ? `\n${colors.state.active(symbols.bar)}  ` : '';
 
     if (state === 'active') {
-      return `${spacingPrefix}${color.dim(prefix)}${color.cyan(
-        S_CHECKBOX_ACTIVE,
-      )} ${label} ${option.hint ? color.dim(`(${option.hint})`) : ''}`;
+      return `${spacingPrefix}${colors.muted(prefix)}${styles.checkboxActive(symbols.checkboxActive)} ${styles.active(label)} ${option.hint ? styles.hint(`(${option.hint})`) : ''}`;
     } else if (state === 'group-active') {
-      return `${spacingPrefix}${prefix}${color.cyan(S_CHECKBOX_ACTIVE)} ${color.dim(label)}`;
+      return `${spacingPrefix}${prefix}${styles.checkboxActive(symbols.checkboxActive)} ${styles.inactive(label)}`;
     } else if (state === 'group-active-selected') {
-      return `${spacingPrefix}${prefix}${color.green(S_CHECKBOX_SELECTED)} ${color.dim(label)}`;
+      return `${spacingPrefix}${prefix}${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.inactive(label)}`;
     } else if (state === 'selected') {
-      return `${spacingPrefix}${color.dim(prefix)}${color.green(
-        S_CHECKBOX_SELECTED,
-      )} ${color.dim(label)}`;
+      return `${spacingPrefix}${colors.muted(prefix)}${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.inactive(label)}`;
     } else if (state === 'cancelled') {
-      return color.strikethrough(color.dim(label));
+      return styles.cancelled(label);
     } else if (state === 'active-selected') {
-      return `${spacingPrefix}${color.dim(prefix)}${color.green(
-        S_CHECKBOX_SELECTED,
-      )} ${label} ${option.hint ? color.dim(`(${option.hint})`) : ''}`;
+      return `${spacingPrefix}${colors.muted(prefix)}${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.active(label)} ${option.hint ? styles.hint(`(${option.hint})`) : ''}`;
     } else if (state === 'submitted') {
-      return color.dim(label);
+      return styles.selected(label);
     }
-    return `${spacingPrefix}${color.dim(prefix)}${
-      isItem || selectableGroups ? `${color.dim(S_CHECKBOX_INACTIVE)} ` : ''
-    }${color.dim(label)}`;
+    return `${spacingPrefix}${colors.muted(prefix)}${
+      isItem || selectableGroups
+        ? `${styles.checkboxInactive(symbols.checkboxInactive)} `
+        : ''
+    }${styles.inactive(label)}`;
   };
 
   return new GroupMultiSelectPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
     options: opts.options,
     initialValues: opts.initialValues,
     required: opts.required ?? true,
@@ -520,31 +1043,69 @@ export const groupMultiselect = <Value>(
     selectableGroups,
     validate(selected: Value[]) {
       if (this.required && selected.length === 0)
-        return `Please select at least one option.\n${color.reset(
-          color.dim(
-            `Press ${color.gray(color.bgWhite(color.inverse(' space ')))} to select, ${color.gray(
-              color.bgWhite(color.inverse(' enter ')),
-            )} to submit`,
+        return `${locale.selectAtLeastOne}\n${color.reset(
+          colors.muted(
+            locale.selectHint(
+              styles.keyInactive(' space '),
+              styles.keyInactive(' enter '),
+            ),
           ),
         )}`;
     },
     render() {
-      const title = `${color.gray(S_BAR)}\n${symbol(this.state)}  ${opts.message}\n`;
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      // long lists scroll to the option under the cursor
+      const list = (bar: string) => {
+        const lines = this.options.map((option, i, options) => {
+          const selected =
+            this.value.includes(option.value) ||
+            (option.group === true && this.isGroupSelected(`${option.value}`));
+          const active = i === this.cursor;
+          const groupActive =
+            !active &&
+            typeof option.group === 'string' &&
+            this.options[this.cursor]!.value === option.group;
+          if (groupActive) {
+            return opt(
+              option,
+              selected ? 'group-active-selected' : 'group-active',
+              options,
+            );
+          }
+          if (active && selected) {
+            return opt(option, 'active-selected', options);
+          }
+          if (selected) {
+            return opt(option, 'selected', options);
+          }
+          return opt(option, active ? 'active' : 'inactive', options);
+        });
+        return {
+          header: title.trim(),
+          body: `${bar}  ${lines.join(`\n${bar}  `)}`,
+          // spaced groups start with a blank line
+          focus:
+            lines
+              .slice(0, this.cursor + 1)
+              .join('\n')
+              .split('\n').length - 1,
+        };
+      };
 
       switch (this.state) {
         case 'submit': {
-          return `${title}${color.gray(S_BAR)}  ${this.options
+          return `${submitPrefix(this, opts.message, theme, locale)}${this.options
             .filter(({ value }) => this.value.includes(value))
             .map((option) => opt(option, 'submitted'))
-            .join(color.dim(', '))}`;
+            .join(colors.muted(', '))}`;
         }
         case 'cancel': {
           const label = this.options
             .filter(({ value }) => this.value.includes(value))
             .map((option) => opt(option, 'cancelled'))
-            .join(color.dim(', '));
-          return `${title}${color.gray(S_BAR)}  ${
-            label.trim() ? `${label}\n${color.gray(S_BAR)}` : ''
+            .join(colors.muted(', '));
+          return `${title}${colors.gutter(symbols.bar)}  ${
+            label.trim() ? `${label}\n${colors.gutter(symbols.bar)}` : ''
           }`;
         }
         case 'error': {
@@ -552,74 +1113,446 @@ export const groupMultiselect = <Value>(
             .split('\n')
             .map((ln, i) =>
               i === 0
-                ? `${color.yellow(S_BAR_END)}  ${color.yellow(ln)}`
+                ? `${colors.state.error(symbols.barEnd)}  ${colors.state.error(ln)}`
                 : `   ${ln}`,
             )
             .join('\n');
-          return `${title}${color.yellow(S_BAR)}  ${this.options
-            .map((option, i, options) => {
-              const selected =
-                this.value.includes(option.value) ||
-                (option.group === true &&
-                  this.isGroupSelected(`${option.value}`));
-              const active = i === this.cursor;
-              const groupActive =
-                !active &&
-                typeof option.group === 'string' &&
-                this.options[this.cursor]!.value === option.group;
-              if (groupActive) {
-                return opt(
-                  option,
-                  selected ? 'group-active-selected' : 'group-active',
-                  options,
-                );
-              }
-              if (active && selected) {
-                return opt(option, 'active-selected', options);
-              }
-              if (selected) {
-                return opt(option, 'selected', options);
-              }
-              return opt(option, active ? 'active' : 'inactive', options);
-            })
-            .join(`\n${color.yellow(S_BAR)}  `)}\n${footer}\n`;
+          return {
+            ...list(colors.state.error(symbols.bar)),
+            footer: `${footer}\n`,
+          };
         }
         default: {
-          return `${title}${color.cyan(S_BAR)}  ${this.options
-            .map((option, i, options) => {
-              const selected =
-                this.value.includes(option.value) ||
-                (option.group === true &&
-                  this.isGroupSelected(`${option.value}`));
-              const active = i === this.cursor;
-              const groupActive =
-                !active &&
-                typeof option.group === 'string' &&
-                this.options[this.cursor]!.value === option.group;
-              if (groupActive) {
-                return opt(
-                  option,
-                  selected ? 'group-active-selected' : 'group-active',
-                  options,
-                );
-              }
-              if (active && selected) {
-                return opt(option, 'active-selected', options);
-              }
-              if (selected) {
-                return opt(option, 'selected', options);
-              }
-              return opt(option, active ? 'active' : 'inactive', options);
-            })
-            .join(`\n${color.cyan(S_BAR)}  `)}\n${color.cyan(S_BAR_END)}\n`;
+          return {
+            ...list(colors.state.active(symbols.bar)),
+            footer: `${colors.state.active(symbols.barEnd)}\n`,
+          };
         }
       }
     },
   }).prompt() as Promise<Value[] | symbol>;
 };
 
+const highlight = (label: string, indices: number[], theme: Theme) => {
+  if (indices.length === 0) return label;
+  return [...label]
+    .map((char, i) => (indices.includes(i) ? theme.options.match(char) : char))
+    .join('');
+};
+
+export interface AutocompleteOptions<Value>
+  extends CommonOptions, TimeoutOptions {
+  message: string;
+  options: Array<Option<Value>>;
+  initialValue?: Value;
+  placeholder?: string;
+  maxItems?: number;
+  /**
+   * Custom matcher, returning `undefined` to hide the option or the score
+   * and the label character indices to highlight.
+   */
+  filter?: (
+    search: string,
+    option: Option<Value>,
+  ) => { score: number; indices: number[] } | undefined;
+}
+
+export const autocomplete = <Value>(opts: AutocompleteOptions<Value>) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  const opt = (
+    option: Option<Value>,
+    state: 'inactive' | 'active' | 'selected' | 'cancelled',
+    matches: number[] = [],
+  ) => {
+    const label = option.label ?? String(option.value);
+    switch (state) {
+      case 'selected':
+        return styles.selected(label);
+      case 'active':
+        return `${styles.radioActive(symbols.radioActive)} ${styles.active(highlight(label, matches, theme))} ${
+          option.hint ? styles.hint(`(${option.hint})`) : ''
+        }`;
+      case 'cancelled':
+        return styles.cancelled(label);
+      default:
+        return `${styles.radioInactive(symbols.radioInactive)} ${colors.muted(
+          highlight(label, matches, theme),
+        )}`;
+    }
+  };
+
+  return new AutocompletePrompt<Option<Value>>({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    options: opts.options,
+    initialValue: opts.initialValue,
+    filter: opts.filter,
+    validate(value: Value | undefined) {
+      if (value === undefined) return locale.noMatchingOption;
+    },
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const search =
+        !this.search && opts.placeholder
+          ? color.inverse(opts.placeholder[0]) +
+            colors.muted(opts.placeholder.slice(1))
+          : this.searchWithCursor;
+      const focused = this.filteredOptions[this.cursor];
+
+      switch (this.state) {
+        case 'submit':
+          return `${submitPrefix(this, opts.message, theme, locale)}${opt(focused!, 'selected')}`;
+        case 'cancel':
+          return `${title}${colors.gutter(symbols.bar)}  ${
+            focused ? opt(focused, 'cancelled') : styles.cancelled(this.search)
+          }\n${colors.gutter(symbols.bar)}`;
+        default: {
+          const bar = colors.state[this.state];
+          const options =
+            this.filteredOptions.length === 0
+              ? [colors.muted(locale.noMatches)]
+              : limitOptions({
+                  cursor: this.cursor,
+                  options: this.filteredOptions,
+                  maxItems: opts.maxItems,
+                  rows: this.rows,
+                  theme,
+                  style: (item, active) =>
+                    opt(
+                      item,
+                      active ? 'active' : 'inactive',
+                      this.getMatches(item),
+                    ),
+                });
+          const footer =
+            this.state === 'error'
+              ? `${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}`
+              : colors.state.active(symbols.barEnd);
+          return `${title}${bar(symbols.bar)}  ${search}\n${bar(symbols.bar)}  ${options.join(
+            `\n${bar(symbols.bar)}  `,
+          )}\n${footer}\n`;
+        }
+      }
+    },
+  }).prompt() as Promise<Value | symbol>;
+};
+
+export interface AutocompleteMultiSelectOptions<Value>
+  extends CommonOptions, TimeoutOptions {
+  message: string;
+  options: Array<Option<Value>>;
+  initialValues?: Value[];
+  placeholder?: string;
+  maxItems?: number;
+  required?: boolean;
+  filter?: AutocompleteOptions<Value>['filter'];
+}
+
+export const autocompleteMultiselect = <Value>(
+  opts: AutocompleteMultiSelectOptions<Value>,
+) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  const opt = (
+    option: Option<Value>,
+    state: 'inactive' | 'active' | 'selected' | 'active-selected',
+    matches: number[] = [],
+  ) => {
+    const label = highlight(
+      option.label ?? String(option.value),
+      matches,
+      theme,
+    );
+    const hint = option.hint ? styles.hint(`(${option.hint})`) : '';
+    switch (state) {
+      case 'active':
+        return `${styles.checkboxActive(symbols.checkboxActive)} ${styles.active(label)} ${hint}`;
+      case 'selected':
+        return `${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.inactive(label)}`;
+      case 'active-selected':
+        return `${styles.checkboxSelected(symbols.checkboxSelected)} ${styles.active(label)} ${hint}`;
+      default:
+        return `${styles.checkboxInactive(symbols.checkboxInactive)} ${styles.inactive(label)}`;
+    }
+  };
+
+  return new AutocompletePrompt<Option<Value>>({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    options: opts.options,
+    initialValues: opts.initialValues,
+    multiple: true,
+    required: opts.required ?? true,
+    filter: opts.filter,
+    validate(selected: Value[]) {
+      if (this.required && selected.length === 0)
+        return `${locale.selectAtLeastOne}\n${color.reset(
+          colors.muted(
+            locale.selectHint(
+              styles.keyInactive(' tab '),
+              styles.keyInactive(' enter '),
+            ),
+          ),
+        )}`;
+    },
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const selectedLabels = this.options
+        .filter(({ value }) => this.value.includes(value))
+        .map((option) => option.label ?? String(option.value));
+
+      switch (this.state) {
+        case 'submit':
+          return `${submitPrefix(this, opts.message, theme, locale)}${
+            selectedLabels
+              .map((label) => styles.selected(label))
+              .join(colors.muted(', ')) || colors.muted(locale.none)
+          }`;
+        case 'cancel': {
+          const label = selectedLabels
+            .map((label) => styles.cancelled(label))
+            .join(colors.muted(', '));
+          return `${title}${colors.gutter(symbols.bar)}  ${
+            label.trim() ? `${label}\n${colors.gutter(symbols.bar)}` : ''
+          }`;
+        }
+        default: {
+          const bar = colors.state[this.state];
+          const search =
+            !this.search && opts.placeholder
+              ? color.inverse(opts.placeholder[0]) +
+                colors.muted(opts.placeholder.slice(1))
+              : this.searchWithCursor;
+          const count = colors.muted(locale.selectedCount(this.value.length));
+          const options =
+            this.filteredOptions.length === 0
+              ? [colors.muted(locale.noMatches)]
+              : limitOptions({
+                  cursor: this.cursor,
+                  options: this.filteredOptions,
+                  maxItems: opts.maxItems,
+                  rows: this.rows,
+                  theme,
+                  style: (item, active) => {
+                    const selected = this.value.includes(item.value);
+                    const state =
+                      active && selected
+                        ? 'active-selected'
+                        : selected
+                          ? 'selected'
+                          : active
+                            ? 'active'
+                            : 'inactive';
+                    return opt(item, state, this.getMatches(item));
+                  },
+                });
+          const footer =
+            this.state === 'error'
+              ? this.error
+                  .split('\n')
+                  .map((ln, i) =>
+                    i === 0
+                      ? `${colors.state.error(symbols.barEnd)}  ${colors.state.error(ln)}`
+                      : `   ${ln}`,
+                  )
+                  .join('\n')
+              : colors.state.active(symbols.barEnd);
+          return `${title}${bar(symbols.bar)}  ${search} ${count}\n${bar(symbols.bar)}  ${options.join(
+            `\n${bar(symbols.bar)}  `,
+          )}\n${footer}\n`;
+        }
+      }
+    },
+  }).prompt() as Promise<Value[] | symbol>;
+};
+
+type FormValues<Fields extends Record<string, FormField>> = {
+  [K in keyof Fields]: Fields[K] extends { type: 'number' }
+    ? number
+    : Fields[K] extends { type: 'confirm' }
+      ? boolean
+      : Fields[K] extends { type: 'select'; options: Array<{ value: infer V }> }
+        ? V
+        : string;
+};
+
+export interface FormOptions<Fields extends Record<string, FormField>>
+  extends CommonOptions, TimeoutOptions {
+  message: string;
+  /** Fields by name, shown in order. */
+  fields: Fields;
+  /** Checks the values together, once every field is valid. */
+  validate?: (
+    values: FormValues<Fields>,
+  ) => string | void | Promise<string | void>;
+}
+
+export const form = <const Fields extends Record<string, FormField>>(
+  opts: FormOptions<Fields>,
+) => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, options: styles } = theme;
+  const locale = resolveLocale(opts.locale);
+  const width = Math.max(
+    ...Object.values(opts.fields).map(({ message }) => strip(message).length),
+  );
+  const radios = (labels: string[], selected: number) =>
+    labels
+      .map((label, i) =>
+        i === selected
+          ? `${styles.radioActive(symbols.radioActive)} ${styles.active(label)}`
+          : `${styles.radioInactive(symbols.radioInactive)} ${styles.inactive(label)}`,
+      )
+      .join(` ${colors.muted('/')} `);
+  const optionLabel = (
+    field: Extract<FormField, { type: 'select' }>,
+    value: unknown,
+  ) => {
+    const option = field.options.find((option) => option.value === value);
+    return option ? (option.label ?? String(option.value)) : '';
+  };
+  // a field that is not edited
+  const answer = (field: FormField, value: any): string => {
+    switch (field.type) {
+      case 'password':
+        return (field.mask ?? symbols.passwordMask).repeat(
+          String(value ?? '').length,
+        );
+      case 'confirm':
+        return value
+          ? (field.active ?? locale.yes)
+          : (field.inactive ?? locale.no);
+      case 'select':
+        return optionLabel(field, value);
+      case 'text':
+        return value ? String(value) : colors.muted(field.placeholder ?? '');
+      default:
+        return String(value ?? '');
+    }
+  };
+  // the focused field, edited by its prompt
+  const editor = (field: FormField, prompt: Prompt): string => {
+    const cursor = color.inverse(color.hidden('_'));
+    switch (field.type) {
+      case 'confirm':
+        return radios(
+          [field.active ?? locale.yes, field.inactive ?? locale.no],
+          prompt.value ? 0 : 1,
+        );
+      case 'select':
+        return radios(
+          field.options.map((option) => optionLabel(field, option.value)),
+          (prompt as SelectPrompt<{ value: unknown }>).cursor,
+        );
+      case 'text':
+        return prompt.value
+          ? (prompt as TextPrompt).valueWithCursor
+          : field.placeholder
+            ? color.inverse(field.placeholder[0]!) +
+              colors.muted(field.placeholder.slice(1))
+            : cursor;
+      default:
+        return (
+          (prompt as PasswordPrompt | NumberPrompt).valueWithCursor || cursor
+        );
+    }
+  };
+
+  return new FormPrompt({
+    message: opts.message,
+    input: opts.input,
+    output: opts.output,
+    signal: opts.signal,
+    keybindings: opts.keybindings,
+    locale: opts.locale,
+    nonInteractive: opts.nonInteractive,
+    timeout: opts.timeout,
+    timeoutAction: opts.timeoutAction,
+    fields: Object.fromEntries(
+      Object.entries<FormField>(opts.fields).map(([name, field]) => [
+        name,
+        field.type === 'password'
+          ? { ...field, mask: field.mask ?? symbols.passwordMask }
+          : field,
+      ]),
+    ),
+    validate: opts.validate as (
+      values: Record<string, any>,
+    ) => string | void | Promise<string | void>,
+    render() {
+      const title = `${colors.gutter(symbols.bar)}\n${symbol(this.state, theme)}  ${opts.message}${countdown(this, theme)}\n`;
+      const label = (message: string) =>
+        `${message}${' '.repeat(width - strip(message).length)}`;
+      const answers = this.fields.map(
+        ({ name, field }) =>
+          `${colors.muted(label(field.message))}  ${answer(field, this.value[name])}`,
+      );
+
+      switch (this.state) {
+        case 'submit':
+          return `${submitPrefix(this, opts.message, theme, locale)}${answers.join(
+            `\n${colors.gutter(symbols.bar)}  `,
+          )}`;
+        case 'cancel':
+          return `${title}${answers
+            .map(
+              (line) =>
+                `${colors.gutter(symbols.bar)}  ${styles.cancelled(strip(line))}`,
+            )
+            .join('\n')}\n${colors.gutter(symbols.bar)}`;
+        default: {
+          const bar = colors.state[this.state];
+          const rows = this.fields.map(({ name, field }, i) => {
+            const prompt = this.active;
+            if (i !== this.cursor || !prompt) return answers[i];
+            const row = `${colors.state.active(label(field.message))}  ${editor(field, prompt)}`;
+            return prompt.state === 'error' || prompt.state === 'validating'
+              ? `${row}\n${bar(symbols.bar)}  ${' '.repeat(width + 2)}${
+                  prompt.state === 'error'
+                    ? colors.state.error(prompt.error)
+                    : colors.muted(locale.validating)
+                }`
+              : row;
+          });
+          const footer =
+            this.state === 'error'
+              ? `${colors.state.error(symbols.barEnd)}  ${colors.state.error(this.error)}`
+              : `${colors.state.active(symbols.barEnd)}  ${colors.muted(locale.formHint)}`;
+          return `${title}${rows
+            .map((row) => `${bar(symbols.bar)}  ${row}`)
+            .join('\n')}\n${footer}\n`;
+        }
+      }
+    },
+  }).prompt() as Promise<Prettify<FormValues<Fields>> | symbol>;
+};
+
 const strip = (str: string) => str.replace(ansiRegex(), '');
-function buildBox(message = '', title = '', dimmed = true) {
+function buildBox(
+  message = '',
+  title = '',
+  dimmed = true,
+  { output = getDefaultStreams().output, ...opts }: CommonOptions = {},
+) {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors, box } = theme;
   const lines = `\n${message}\n`.split('\n');
   const titleLen = strip(title).length;
   const len =
@@ -633,37 +1566,40 @@ function buildBox(message = '', title = '', dimmed = true) {
   const msg = lines
     .map(
       (ln) =>
-        `${color.gray(S_BAR)}  ${dimmed ? color.dim(ln) : ln}${' '.repeat(
+        `${colors.gutter(symbols.bar)}  ${dimmed ? colors.muted(ln) : ln}${' '.repeat(
           len - strip(ln).length,
-        )}${color.gray(S_BAR)}`,
+        )}${box.border(box.vertical)}`,
     )
     .join('\n');
-  process.stdout.write(
-    `${color.gray(S_BAR)}\n${color.green(S_STEP_SUBMIT)}  ${color.reset(title)} ${color.gray(
-      S_BAR_H.repeat(Math.max(len - titleLen - 1, 1)) + S_CORNER_TOP_RIGHT,
-    )}\n${msg}\n${color.gray(S_CONNECT_LEFT + S_BAR_H.repeat(len + 2) + S_CORNER_BOTTOM_RIGHT)}\n`,
+  output.write(
+    `${colors.gutter(symbols.bar)}\n${symbol('submit', theme)}  ${color.reset(title)} ${box.border(
+      box.horizontal.repeat(Math.max(len - titleLen - 1, 1)) +
+        box.cornerTopRight,
+    )}\n${msg}\n${box.border(box.connectLeft + box.horizontal.repeat(len + 2) + box.cornerBottomRight)}\n`,
   );
 }
 
-export const note = (message = '', title = ''): void =>
-  buildBox(message, title, true);
-export const box = (message = '', title = ''): void =>
-  buildBox(message, title, false);
+export const note = (message = '', title = '', opts?: CommonOptions): void =>
+  buildBox(message, title, true, opts);
+export const box = (message = '', title = '', opts?: CommonOptions): void =>
+  buildBox(message, title, false, opts);
 export const taskLog = (
   title: string,
-  options: {
+  options: CommonOptions & {
     parser?: (message: string) => string;
   } = {},
 ) => {
-  const BAR = color.dim(S_BAR);
-  const ACTIVE = color.green(S_STEP_SUBMIT);
-  const SUCCESS = color.green(S_SUCCESS);
-  const ERROR = color.red(S_ERROR);
-  const { parser } = options;
+  const theme = resolveTheme(options.theme);
+  const { symbols, colors } = theme;
+  const BAR = colors.muted(symbols.bar);
+  const ACTIVE = symbol('submit', theme);
+  const SUCCESS = colors.success(symbols.success);
+  const ERROR = colors.error(symbols.error);
+  const { parser, output: stream = getDefaultStreams().output } = options;
 
   // heading
-  process.stdout.write(`${BAR}\n`);
-  process.stdout.write(`${ACTIVE}  ${title}\n`);
+  stream.write(`${BAR}\n`);
+  stream.write(`${ACTIVE}  ${title}\n`);
 
   let output = '';
   let frame = '';
@@ -671,7 +1607,7 @@ export const taskLog = (
   // clears previous output
   const clear = (eraseTitle = false): void => {
     if (!frame) return;
-    const terminalWidth = process.stdout.columns;
+    const terminalWidth = getColumns(stream);
     const frameHeight = frame.split('\n').reduce((height, line) => {
       // accounts for line wraps
       height += Math.ceil(line.length / terminalWidth);
@@ -679,8 +1615,8 @@ export const taskLog = (
     }, 0);
     const lines = frameHeight + (eraseTitle ? 1 : 0);
 
-    process.stdout.write(cursor.up(lines));
-    process.stdout.write(erase.down());
+    stream.write(cursor.up(lines));
+    stream.write(erase.down());
   };
 
   // logs the output
@@ -692,7 +1628,7 @@ export const taskLog = (
     for (const line of lines) {
       frame += `${BAR}  ${line}\n`;
     }
-    process.stdout.write(color.dim(frame));
+    stream.write(colors.muted(frame));
   };
 
   return {
@@ -706,87 +1642,98 @@ export const taskLog = (
     },
     fail(message: string): void {
       clear(true);
-      process.stdout.write(`${ERROR}  ${message}\n`);
+      stream.write(`${ERROR}  ${message}\n`);
       print(); // log the output on failure
     },
     success(message: string): void {
       clear(true);
-      process.stdout.write(`${SUCCESS}  ${message}\n`);
+      stream.write(`${SUCCESS}  ${message}\n`);
     },
   };
 };
 
-export const cancel = (message = ''): void => {
-  process.stdout.write(`${color.gray(S_BAR_END)}  ${color.red(message)}\n\n`);
+export const cancel = (message = '', opts?: CommonOptions): void => {
+  const { symbols, colors } = resolveTheme(opts?.theme);
+  const { output = getDefaultStreams().output } = opts ?? {};
+  output.write(
+    `${colors.gutter(symbols.barEnd)}  ${colors.state.cancel(message)}\n\n`,
+  );
 };
 
-export const intro = (title = ''): void => {
-  process.stdout.write(`${color.gray(S_BAR_START)}  ${title}\n`);
+export const intro = (title = '', opts?: CommonOptions): void => {
+  const { symbols, colors } = resolveTheme(opts?.theme);
+  const { output = getDefaultStreams().output } = opts ?? {};
+  output.write(`${colors.gutter(symbols.barStart)}  ${title}\n`);
 };
 
-export const outro = (message = ''): void => {
-  process.stdout.write(
-    `${color.gray(S_BAR)}\n${color.gray(S_BAR_END)}  ${message}\n\n`,
+export const outro = (message = '', opts?: CommonOptions): void => {
+  const { symbols, colors } = resolveTheme(opts?.theme);
+  const { output = getDefaultStreams().output } = opts ?? {};
+  output.write(
+    `${colors.gutter(symbols.bar)}\n${colors.gutter(symbols.barEnd)}  ${message}\n\n`,
   );
 };
 
-export type LogMessageOptions = {
+export type LogMessageOptions = CommonOptions & {
   symbol?: string;
 };
 export const log = {
   message: (
     message = '',
-    { symbol = color.gray(S_BAR) }: LogMessageOptions = {},
+    {
+      symbol,
+      output = getDefaultStreams().output,
+      ...opts
+    }: LogMessageOptions = {},
   ): void => {
-    const parts = [color.gray(S_BAR)];
+    const { symbols, colors } = resolveTheme(opts.theme);
+    symbol ??= colors.gutter(symbols.bar);
+    const parts = [colors.gutter(symbols.bar)];
     if (message) {
       const [firstLine, ...lines] = message.split('\n');
       parts.push(
         `${symbol}  ${firstLine}`,
-        ...lines.map((ln) => `${color.gray(S_BAR)}  ${ln}`),
+        ...lines.map((ln) => `${colors.gutter(symbols.bar)}  ${ln}`),
       );
     }
-    process.stdout.write(`${parts.join('\n')}\n`);
+    output.write(`${parts.join('\n')}\n`);
   },
-  info: (message: string): void => {
-    log.message(message, { symbol: color.blue(S_INFO) });
+  info: (message: string, opts?: CommonOptions): void => {
+    const { symbols, colors } = resolveTheme(opts?.theme);
+    log.message(message, { ...opts, symbol: colors.info(symbols.info) });
   },
-  success: (message: string): void => {
-    log.message(message, { symbol: color.green(S_SUCCESS) });
+  success: (message: string, opts?: CommonOptions): void => {
+    const { symbols, colors } = resolveTheme(opts?.theme);
+    log.message(message, { ...opts, symbol: colors.success(symbols.success) });
   },
-  step: (message: string): void => {
-    log.message(message, { symbol: color.green(S_STEP_SUBMIT) });
+  step: (message: string, opts?: CommonOptions): void => {
+    log.message(message, {
+      ...opts,
+      symbol: symbol('submit', resolveTheme(opts?.theme)),
+    });
   },
-  warn: (message: string): void => {
-    log.message(message, { symbol: color.yellow(S_WARN) });
+  warn: (message: string, opts?: CommonOptions): void => {
+    const { symbols, colors } = resolveTheme(opts?.theme);
+    log.message(message, { ...opts, symbol: colors.warn(symbols.warn) });
   },
   /** alias for `log.warn()`. */
-  warning: (message: string): void => {
-    log.warn(message);
+  warning: (message: string, opts?: CommonOptions): void => {
+    log.warn(message, opts);
   },
-  error: (message: string): void => {
-    log.message(message, { symbol: color.red(S_ERROR) });
+  error: (message: string, opts?: CommonOptions): void => {
+    const { symbols, colors } = resolveTheme(opts?.theme);
+    log.message(message, { ...opts, symbol: colors.error(symbols.error) });
   },
 };
 
-export const spinner = (): {
-  start: (msg?: string) => void;
-  stop: (msg?: string, code?: number) => void;
-  message: (msg?: string) => void;
-} => {
-  const frames = unicode ? ['◒', '◐', '◓', '◑'] : ['•', 'o', 'O', '0'];
-  const delay = unicode ? 80 : 120;
-
-  let unblock: () => void;
-  let loop: NodeJS.Timeout;
-  let isSpinnerActive: boolean = false;
-  let _message: string = '';
-
-  const handleExit = (code: number) => {
-    const msg = code > 1 ? 'Something went wrong' : 'Canceled';
-    if (isSpinnerActive) stop(msg, code);
-  };
-
+/**
+ * Calls `handleExit` when the process exits, crashes or is interrupted, or
+ * when the signal aborts. Returns a function removing the hooks.
+ */
+const registerExitHooks = (
+  handleExit: (code: number) => void,
+  signal: AbortSignal | undefined,
+): (() => void) => {
   const errorEventHandler = () => {
     handleExit(2);
   };
@@ -794,57 +1741,87 @@ export const spinner = (): {
     handleExit(1);
   };
 
-  const registerHooks = () => {
-    // Reference: https://nodejs.org/api/process.html#event-uncaughtexception
-    process.on('uncaughtExceptionMonitor', errorEventHandler);
-    // Reference: https://nodejs.org/api/process.html#event-unhandledrejection
-    process.on('unhandledRejection', errorEventHandler);
-    // Reference Signal Events: https://nodejs.org/api/process.html#signal-events
-    process.on('SIGINT', signalEventHandler);
-    process.on('SIGTERM', signalEventHandler);
-    process.on('exit', handleExit);
-  };
-
-  const clearHooks = () => {
+  // Reference: https://nodejs.org/api/process.html#event-uncaughtexception
+  process.on('uncaughtExceptionMonitor', errorEventHandler);
+  // Reference: https://nodejs.org/api/process.html#event-unhandledrejection
+  process.on('unhandledRejection', errorEventHandler);
+  // Reference Signal Events: https://nodejs.org/api/process.html#signal-events
+  process.on('SIGINT', signalEventHandler);
+  process.on('SIGTERM', signalEventHandler);
+  process.on('exit', handleExit);
+  signal?.addEventListener('abort', signalEventHandler);
+
+  return () => {
     process.removeListener('uncaughtExceptionMonitor', errorEventHandler);
     process.removeListener('unhandledRejection', errorEventHandler);
     process.removeListener('SIGINT', signalEventHandler);
     process.removeListener('SIGTERM', signalEventHandler);
     process.removeListener('exit', handleExit);
+    signal?.removeEventListener('abort', signalEventHandler);
+  };
+};
+
+/** Step symbol of a finished spinner or progress bar for its exit code. */
+const stopSymbol = (code: number, theme: Theme) =>
+  code === 0
+    ? symbol('submit', theme)
+    : code === 1
+      ? symbol('cancel', theme)
+      : theme.colors.error(theme.symbols.stepError);
+
+export const spinner = ({
+  input = getDefaultStreams().input,
+  output = getDefaultStreams().output,
+  signal,
+  ...opts
+}: CommonOptions = {}): {
+  start: (msg?: string) => void;
+  stop: (msg?: string, code?: number) => void;
+  message: (msg?: string) => void;
+} => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors } = theme;
+  const locale = resolveLocale(opts.locale);
+  const { frames, delay } = theme.spinner;
+
+  let unblock: () => void;
+  let loop: NodeJS.Timeout;
+  let clearHooks: () => void;
+  let isSpinnerActive: boolean = false;
+  let _message: string = '';
+
+  const handleExit = (code: number) => {
+    const msg = code > 1 ? locale.failed : locale.canceled;
+    if (isSpinnerActive) stop(msg, code);
   };
 
   const start = (msg: string = ''): void => {
     isSpinnerActive = true;
-    unblock = block();
+    unblock = block({ input, output, onCancel: () => handleExit(1) });
     _message = msg.replace(/\.+$/, '');
-    process.stdout.write(`${color.gray(S_BAR)}\n`);
+    output.write(`${colors.gutter(symbols.bar)}\n`);
     let frameIndex = 0;
     let dotsTimer = 0;
-    registerHooks();
+    clearHooks = registerExitHooks(handleExit, signal);
     loop = setInterval(() => {
-      const frame = color.magenta(frames[frameIndex]);
+      const frame = theme.spinner.color(frames[frameIndex]!);
       const loadingDots = '.'.repeat(Math.floor(dotsTimer)).slice(0, 3);
-      process.stdout.write(cursor.move(-999, 0));
-      process.stdout.write(erase.down(1));
-      process.stdout.write(`${frame}  ${_message}${loadingDots}`);
+      output.write(cursor.move(-999, 0));
+      output.write(erase.down(1));
+      output.write(`${frame}  ${_message}${loadingDots}`);
       frameIndex = frameIndex + 1 < frames.length ? frameIndex + 1 : 0;
       dotsTimer = dotsTimer < frames.length ? dotsTimer + 0.125 : 0;
     }, delay);
+    if (signal?.aborted) handleExit(1);
   };
 
   const stop = (msg: string = '', code: number = 0): void => {
     _message = msg ?? _message;
     isSpinnerActive = false;
     clearInterval(loop);
-    const step =
-      code === 0
-        ? color.green(S_STEP_SUBMIT)
-        : code === 1
-          ? color.red(S_STEP_CANCEL)
-          : color.red(S_STEP_ERROR);
-    process.stdout.write(cursor.move(-999, 0));
-    process.stdout.write(erase.down(1));
-    process.stdout.write(`${step}  ${_message}\n`);
+    output.write(cursor.move(-999, 0));
+    output.write(erase.down(1));
+    output.write(`${stopSymbol(code, theme)}  ${_message}\n`);
     clearHooks();
     unblock();
   };
@@ -860,6 +1837,127 @@ export const spinner = (): {
   };
 };
 
+/** Formats a number of seconds as `45s`, `3m 05s` or `1h 02m`. */
+const formatDuration = (seconds: number) => {
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(m / 60)}h ${String(m % 60).padStart(2, '0')}m`;
+};
+
+export interface ProgressOptions extends CommonOptions {
+  /** Value at which the work is complete. */
+  max: number;
+  /** Width of the bar in columns, 40 by default. */
+  size?: number;
+}
+
+export const progress = ({
+  input = getDefaultStreams().input,
+  output = getDefaultStreams().output,
+  signal,
+  max,
+  size = 40,
+  ...opts
+}: ProgressOptions): {
+  start: (msg?: string) => void;
+  advance: (step?: number, msg?: string) => void;
+  set: (value: number, msg?: string) => void;
+  stop: (msg?: string, code?: number) => void;
+  message: (msg?: string) => void;
+} => {
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors } = theme;
+  const locale = resolveLocale(opts.locale);
+  const { frames, delay } = theme.spinner;
+
+  let unblock: () => void;
+  let loop: NodeJS.Timeout;
+  let clearHooks: () => void;
+  let isProgressActive: boolean = false;
+  let _message: string = '';
+  let value = 0;
+  let startedAt = 0;
+
+  const handleExit = (code: number) => {
+    const msg = code > 1 ? locale.failed : locale.canceled;
+    if (isProgressActive) stop(msg, code);
+  };
+
+  const bar = (finished: boolean) => {
+    const ratio = max > 0 ? value / max : 1;
+    const filled = Math.round(ratio * size);
+    const percent = `${Math.floor(ratio * 100)}%`.padStart(4);
+    const count = `${String(value).padStart(String(max).length)}/${max}`;
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const eta =
+      !finished && value > 0 && value < max
+        ? ` · ${locale.timeLeft(formatDuration((elapsed / value) * (max - value)))}`
+        : '';
+    return `${theme.progress.color(theme.progress.filled.repeat(filled))}${colors.muted(
+      theme.progress.empty.repeat(size - filled),
+    )} ${percent} ${colors.muted(`${count}${eta}`)}`;
+  };
+
+  const draw = (prefix: string, finished: boolean) => {
+    output.write(cursor.move(-999, 0));
+    output.write(erase.down(1));
+    output.write(
+      `${prefix}  ${bar(finished)}${_message ? `  ${_message}` : ''}`,
+    );
+  };
+
+  const start = (msg: string = ''): void => {
+    isProgressActive = true;
+    unblock = block({ input, output, onCancel: () => handleExit(1) });
+    _message = msg;
+    value = 0;
+    startedAt = Date.now();
+    output.write(`${colors.gutter(symbols.bar)}\n`);
+    let frameIndex = 0;
+    clearHooks = registerExitHooks(handleExit, signal);
+    const render = () => {
+      draw(theme.spinner.color(frames[frameIndex]!), false);
+      frameIndex = frameIndex + 1 < frames.length ? frameIndex + 1 : 0;
+    };
+    render();
+    loop = setInterval(render, delay);
+    if (signal?.aborted) handleExit(1);
+  };
+
+  const set = (next: number, msg?: string): void => {
+    value = Math.min(Math.max(next, 0), max);
+    if (msg !== undefined) _message = msg;
+  };
+
+  const advance = (step: number = 1, msg?: string): void => {
+    set(value + step, msg);
+  };
+
+  const stop = (msg?: string, code: number = 0): void => {
+    if (msg !== undefined) _message = msg;
+    isProgressActive = false;
+    clearInterval(loop);
+    draw(stopSymbol(code, theme), true);
+    output.write('\n');
+    clearHooks();
+    unblock();
+  };
+
+  const message = (msg: string = ''): void => {
+    _message = msg;
+  };
+
+  return {
+    start,
+    advance,
+    set,
+    stop,
+    message,
+  };
+};
+
 // Adapted from https://github.com/chalk/ansi-regex
 // @see LICENSE
 function ansiRegex() {
@@ -875,7 +1973,7 @@ export type PromptGroupAwaitedReturn<T> = {
   [P in keyof T]: Exclude<Awaited<T[P]>, symbol>;
 };
 
-export interface PromptGroupOptions<T> {
+export interface PromptGroupOptions<T> extends CommonOptions {
   /**
    * Control how the group can be canceled
    * if one of the prompts is canceled.
@@ -883,6 +1981,27 @@ export interface PromptGroupOptions<T> {
   onCancel?: (opts: {
     results: Prettify<Partial<PromptGroupAwaitedReturn<T>>>;
   }) => void;
+  /**
+   * Answers keyed by prompt name, or the path of a JSON file containing them.
+   * Prompts with an answer are skipped, after checking it with the prompt's
+   * `validate`.
+   */
+  answers?: Partial<PromptGroupAwaitedReturn<T>> | string;
+  /**
+   * Cancels the active prompt and skips the remaining ones when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Key going back to the previous prompt, which starts from its answer.
+   * The prompts after it are asked again.
+   */
+  backKey?: BackKey;
+  /**
+   * Shows the answers once every prompt is answered, to confirm them or
+   * change one of them. Canceling calls `onCancel` and returns a symbol
+   * checked with `isCancel()`. The other options apply to the review.
+   */
+  review?: boolean;
 }
 
 type Prettify<T> = {
@@ -895,22 +2014,166 @@ export type PromptGroup<T> = {
   }) => void | Promise<T[P] | void>;
 };
 
+const reviewConfirm = Symbol('clack:review-confirm');
+const reviewCancel = Symbol('clack:review-cancel');
+
+const presetAnswer = (value: unknown, edit = false): PresetAnswer => ({
+  value,
+  consumed: false,
+  edit,
+});
+
+const maskAnswer = (value: unknown, mask: string) =>
+  mask.repeat(String(value ?? '').length);
+
+/**
+ * Formats an answer of a group for its review, masking the answers of
+ * passwords, given the prompt started for it.
+ */
+const formatAnswer = (
+  value: unknown,
+  locale: Locale,
+  theme: Theme,
+  prompt?: Prompt,
+): string => {
+  if (prompt instanceof PasswordPrompt) {
+    return maskAnswer(value, theme.symbols.passwordMask);
+  }
+  if (prompt instanceof FormPrompt && value && typeof value === 'object') {
+    const values = value as Record<string, unknown>;
+    return prompt.fields
+      .map(
+        ({ name, field }) =>
+          `${field.message}: ${
+            field.type === 'password'
+              ? maskAnswer(
+                  values[name],
+                  field.mask ?? theme.symbols.passwordMask,
+                )
+              : formatAnswer(values[name], locale, theme)
+          }`,
+      )
+      .join(', ');
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => formatAnswer(item, locale, theme)).join(', ');
+  }
+  if (value instanceof Date) {
+    // dates picked without a time are at midnight
+    return value.getHours() || value.getMinutes()
+      ? value.toLocaleString()
+      : value.toLocaleDateString();
+  }
+  if (isCancel(value)) return locale.canceled;
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, item]) => `${key}: ${formatAnswer(item, locale, theme)}`)
+      .join(', ');
+  }
+  return String(value);
+};
+
 /**
  * Define a group of prompts to be displayed
  * and return a results of objects within the group
  */
-export const group = async <T>(
+export function group<T>(
+  prompts: PromptGroup<T>,
+  opts: PromptGroupOptions<T> & { review: true },
+): Promise<Prettify<PromptGroupAwaitedReturn<T>> | symbol>;
+export function group<T>(
+  prompts: PromptGroup<T>,
+  opts?: PromptGroupOptions<T> & { review?: false },
+): Promise<Prettify<PromptGroupAwaitedReturn<T>>>;
+export function group<T>(
   prompts: PromptGroup<T>,
   opts?: PromptGroupOptions<T>,
-): Promise<Prettify<PromptGroupAwaitedReturn<T>>> => {
+): Promise<Prettify<PromptGroupAwaitedReturn<T>> | symbol>;
+export async function group<T>(
+  prompts: PromptGroup<T>,
+  opts?: PromptGroupOptions<T>,
+): Promise<Prettify<PromptGroupAwaitedReturn<T>> | symbol> {
   const results = {} as any;
   const promptNames = Object.keys(prompts);
-
-  for (const name of promptNames) {
+  const answers: Record<string, unknown> =
+    typeof opts?.answers === 'string'
+      ? JSON.parse(readFileSync(opts.answers, 'utf-8'))
+      : (opts?.answers ?? {});
+
+  // messages of the prompts, labelling the answers in the review
+  const labels: Record<string, string> = {};
+  // prompt answering each prompt function, formatting its answer
+  const answeredBy: Record<string, Prompt> = {};
+  // prompts answered by the user, in order, for going back
+  const history: number[] = [];
+  // answers given before going back, offered again
+  const previous: Record<string, unknown> = {};
+  // prompts started by each prompt function, erased when going back
+  const shown: Record<string, Prompt[]> = {};
+
+  const ask = async (
+    name: string,
+    preset: PresetAnswer | undefined,
+    backKey: BackKey | undefined,
+  ) => {
     const prompt = prompts[name as keyof T];
-    const result = await prompt({ results })?.catch((e) => {
-      throw e;
-    });
+    shown[name] = [];
+    let result: unknown = await withPresetAnswer(preset, () =>
+      withPromptListener(
+        (started) => {
+          // prompts started by a pending prompt, such as the fields of a
+          // form, are part of its answer
+          const pending = shown[name]!.some(
+            ({ state }) => state !== 'submit' && state !== 'cancel',
+          );
+          if (pending) return;
+          shown[name]!.push(started);
+          answeredBy[name] = started;
+          if (started.message) labels[name] = started.message;
+        },
+        () =>
+          withBackKey(backKey, () =>
+            withSignal(opts?.signal, () =>
+              prompt({ results })?.catch((e) => {
+                throw e;
+              }),
+            ),
+          ),
+      ),
+    );
+    // the prompt function answered without starting a prompt
+    if (preset && !preset.consumed && !preset.edit) {
+      result = answers[name];
+    }
+    return result;
+  };
+
+  for (let index = 0; index < promptNames.length;) {
+    if (opts?.signal?.aborted) break;
+    const name = promptNames[index]!;
+    const preset =
+      answers[name] !== undefined
+        ? presetAnswer(answers[name])
+        : name in previous
+          ? presetAnswer(previous[name], true)
+          : undefined;
+    const result = await ask(
+      name,
+      preset,
+      history.length ? opts?.backKey : undefined,
+    );
+
+    if (isBack(result)) {
+      const current = index;
+      index = history.pop()!;
+      // the answers from the previous prompt on are erased, the last first
+      for (const later of promptNames.slice(index, current).reverse()) {
+        for (const started of shown[later]!.reverse()) started.erase();
+      }
+      // the prompts after it may depend on the answer, they are asked again
+      for (const later of promptNames.slice(index)) delete results[later];
+      continue;
+    }
 
     // Pass the results to the onCancel function
     // so the user can decide what to do with the results
@@ -918,14 +2181,77 @@ export const group = async <T>(
     if (typeof opts?.onCancel === 'function' && isCancel(result)) {
       results[name] = 'canceled';
       opts.onCancel({ results });
+      index++;
       continue;
     }
 
     results[name] = result;
+    if (answers[name] === undefined) {
+      previous[name] = result;
+      history.push(index);
+    }
+    index++;
+  }
+
+  const locale = resolveLocale(opts?.locale);
+  const theme = resolveTheme(opts?.theme);
+  while (opts?.review && !opts.signal?.aborted) {
+    const answered = promptNames.filter((name) => results[name] !== undefined);
+    note(
+      answered
+        .map(
+          (name) =>
+            `${labels[name] ?? name}: ${formatAnswer(
+              results[name],
+              locale,
+              theme,
+              answeredBy[name],
+            )}`,
+        )
+        .join('\n'),
+      locale.reviewTitle,
+      { output: opts.output, theme: opts.theme },
+    );
+    const choice = await withSignal(opts.signal, () =>
+      select<string | symbol>({
+        input: opts.input,
+        output: opts.output,
+        theme: opts.theme,
+        keybindings: opts.keybindings,
+        locale: opts.locale,
+        nonInteractive: opts.nonInteractive,
+        message: locale.reviewMessage,
+        // confirms when running non-interactively
+        initialValue: reviewConfirm,
+        options: [
+          { value: reviewConfirm, label: locale.reviewConfirm },
+          ...answered
+            .filter((name) => name in labels)
+            .map((name) => ({
+              value: name,
+              label: locale.reviewEdit(labels[name]!),
+            })),
+          { value: reviewCancel, label: locale.reviewCancel },
+        ],
+      }),
+    );
+    if (choice === reviewConfirm) break;
+    if (choice === reviewCancel || isCancel(choice)) {
+      opts.onCancel?.({ results });
+      return cancelSymbol;
+    }
+    const name = choice as string;
+    const result = await ask(
+      name,
+      presetAnswer(results[name], true),
+      undefined,
+    );
+    // a canceled edit keeps the answer
+    if (!isCancel(result)) results[name] = result;
   }
 
   return results;
-};
+}
 
 export type Task = {
   /**
@@ -943,18 +2269,365 @@ export type Task = {
    * If enabled === false the task will be skipped
    */
   enabled?: boolean;
+  /**
+   * Name other tasks depend on, the title by default
+   */
+  id?: string;
+  /**
+   * Ids of the tasks that must finish before this one starts
+   */
+  dependsOn?: string[];
+  /**
+   * Number of times the task is run again when it fails
+   */
+  retries?: number;
+  /**
+   * What to do once the task failed: stop every task (the default), carry on
+   * without the tasks depending on it, or ask the user
+   */
+  onError?: 'abort' | 'continue' | 'prompt';
+  /**
+   * Undoes the task when a later failure aborts the tasks
+   */
+  rollback?: () => void | Promise<void>;
+};
+
+export interface TasksOptions extends CommonOptions {
+  /** Number of tasks running at the same time, 1 by default. */
+  concurrency?: number;
+}
+
+/** Titles of the tasks by outcome. */
+export interface TasksSummary {
+  succeeded: string[];
+  failed: string[];
+  skipped: string[];
+  /** Tasks that succeeded, then were undone after a failure. */
+  rolledBack: string[];
+}
+
+const taskId = (task: Task) => task.id ?? task.title;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** Throws when a task depends on a missing task or on itself. */
+const checkDependencies = (tasks: Task[]) => {
+  const byId = new Map(tasks.map((task) => [taskId(task), task]));
+  const visited = new Set<Task>();
+  const visit = (task: Task, path: Task[]) => {
+    if (path.includes(task)) {
+      const cycle = [...path.slice(path.indexOf(task)), task];
+      throw new Error(
+        `Tasks depend on each other: ${cycle.map(taskId).join(' -> ')}`,
+      );
+    }
+    if (visited.has(task)) return;
+    for (const id of task.dependsOn ?? []) {
+      const dependency = byId.get(id);
+      if (!dependency) {
+        throw new Error(
+          `Task "${taskId(task)}" depends on unknown task "${id}"`,
+        );
+      }
+      visit(dependency, [...path, task]);
+    }
+    visited.add(task);
+  };
+  for (const task of tasks) visit(task, []);
 };
 
 /**
  * Define a group of tasks to be executed
  */
-export const tasks = async (tasks: Task[]): Promise<void> => {
-  for (const task of tasks) {
-    if (task.enabled === false) continue;
-
-    const s = spinner();
-    s.start(task.title);
-    const result = await task.task(s.message);
-    s.stop(result || task.title);
+export const tasks = async (
+  tasks: Task[],
+  opts: TasksOptions = {},
+): Promise<TasksSummary> => {
+  const {
+    input = getDefaultStreams().input,
+    output = getDefaultStreams().output,
+    signal,
+    concurrency = 1,
+  } = opts;
+  const theme = resolveTheme(opts.theme);
+  const { symbols, colors } = theme;
+  const locale = resolveLocale(opts.locale);
+  const { frames, delay } = theme.spinner;
+
+  if (!(concurrency >= 1)) {
+    throw new Error(`The concurrency must be at least 1, got ${concurrency}`);
   }
+  checkDependencies(tasks);
+  const pending = tasks.filter((task) => task.enabled !== false);
+  const succeeded: Task[] = [];
+  const failed: Task[] = [];
+  const skipped = tasks.filter((task) => task.enabled === false);
+  const rolledBack: Task[] = [];
+  // skipped tasks do not hold back the tasks depending on them
+  const done = new Set(skipped.map(taskId));
+  const summary = (): TasksSummary => ({
+    succeeded: succeeded.map((task) => task.title),
+    failed: failed.map((task) => task.title),
+    skipped: skipped.map((task) => task.title),
+    rolledBack: rolledBack.map((task) => task.title),
+  });
+  if (signal?.aborted || pending.length === 0) return summary();
+
+  // messages of the running tasks, drawn below the finished ones
+  const running = new Map<Task, string>();
+  let frameIndex = 0;
+  let height = 0;
+  // while the user is asked about a failure, finished tasks are held back
+  let paused = false;
+  let deferred = '';
+
+  const clear = () => {
+    if (!height) return;
+    output.write(cursor.up(height));
+    output.write(erase.down());
+    height = 0;
+  };
+
+  const draw = () => {
+    clear();
+    if (paused || running.size === 0) return;
+    const frame = theme.spinner.color(frames[frameIndex]!);
+    const lines = [
+      colors.gutter(symbols.bar),
+      ...[...running.values()].map((message) => `${frame}  ${message}`),
+    ];
+    const columns = getColumns(output);
+    // accounts for line wraps
+    height = lines.reduce(
+      (sum, line) => sum + Math.max(Math.ceil(strip(line).length / columns), 1),
+      0,
+    );
+    output.write(`${lines.join('\n')}\n`);
+  };
+
+  // finished tasks are written above the running ones and never redrawn
+  const settle = (task: Task, step: string, message: string) => {
+    running.delete(task);
+    const text = `${colors.gutter(symbols.bar)}\n${step}  ${message}\n`;
+    if (paused) {
+      deferred += text;
+      return;
+    }
+    clear();
+    output.write(text);
+    draw();
+  };
+
+  const loop = setInterval(() => {
+    frameIndex = frameIndex + 1 < frames.length ? frameIndex + 1 : 0;
+    draw();
+  }, delay);
+
+  return new Promise<TasksSummary>((resolve, reject) => {
+    let failure: { error: unknown } | undefined;
+    let stopped = false;
+    let finishing = false;
+    let prompts: Promise<unknown> = Promise.resolve();
+    // started tasks, including the failed ones waiting for an answer
+    const started = new Set<Task>();
+
+    // the exit code is 1 when the tasks were canceled
+    const close = (code: number = failed.length ? 2 : 0) => {
+      stopped = true;
+      clearInterval(loop);
+      clear();
+      clearHooks();
+      unblock();
+      const counts = [
+        locale.tasksSucceeded(succeeded.length),
+        failed.length ? colors.error(locale.tasksFailed(failed.length)) : '',
+        rolledBack.length
+          ? colors.warn(locale.tasksRolledBack(rolledBack.length))
+          : '',
+        skipped.length ? colors.muted(locale.tasksSkipped(skipped.length)) : '',
+      ].filter(Boolean);
+      output.write(
+        `${colors.gutter(symbols.bar)}\n${stopSymbol(code, theme)}  ${counts.join(', ')}\n`,
+      );
+    };
+
+    // skips the running and pending tasks
+    const stop = (code: number) => {
+      for (const [task, message] of running) {
+        settle(task, stopSymbol(code, theme), message);
+        skipped.push(task);
+      }
+      skipped.push(...pending.splice(0));
+      close(code);
+      resolve(summary());
+    };
+    // a failure prompt is canceled by the signal, the tasks stop after it
+    const handleExit = (code: number) => {
+      if (stopped || running.size === 0) return;
+      stop(code);
+    };
+    const clearHooks = registerExitHooks(handleExit, signal);
+    const blockKeys = () =>
+      block({ input, output, onCancel: () => handleExit(1) });
+    let unblock = blockKeys();
+
+    // undoes the finished tasks, the last one first
+    const rollback = async () => {
+      for (const task of [...succeeded].reverse()) {
+        if (stopped) return;
+        if (!task.rollback) continue;
+        running.set(task, locale.taskRollingBack(task.title));
+        draw();
+        try {
+          await task.rollback();
+          succeeded.splice(succeeded.indexOf(task), 1);
+          rolledBack.push(task);
+          settle(
+            task,
+            symbol('submit', theme),
+            locale.taskRolledBack(task.title),
+          );
+        } catch (error) {
+          settle(
+            task,
+            stopSymbol(2, theme),
+            locale.taskRollbackFailed(task.title, errorMessage(error)),
+          );
+        }
+      }
+    };
+
+    const finish = async () => {
+      // a task settling synchronously may finish the tasks twice
+      if (finishing) return;
+      finishing = true;
+      if (failure) await rollback();
+      if (stopped) return;
+      close();
+      if (failure) reject(failure.error);
+      else resolve(summary());
+    };
+
+    // asks about one failure at a time, the tasks keep running meanwhile
+    const ask = (task: Task, error: unknown) => {
+      const answer = prompts.then(async () => {
+        if (failure || stopped) return 'abort';
+        paused = true;
+        clear();
+        unblock();
+        const action = await select({
+          message: locale.taskFailed(task.title, errorMessage(error)),
+          options: [
+            { value: 'retry', label: locale.taskRetry },
+            {
+              value: 'continue',
+              label: locale.taskSkip,
+              hint: locale.taskSkipHint,
+            },
+            { value: 'abort', label: locale.taskAbort },
+          ],
+          input,
+          output,
+          signal,
+          theme: opts.theme,
+          locale: opts.locale,
+          nonInteractive: opts.nonInteractive,
+        });
+        unblock = blockKeys();
+        paused = false;
+        output.write(deferred);
+        deferred = '';
+        draw();
+        return isCancel(action) ? 'abort' : action;
+      });
+      prompts = answer;
+      return answer;
+    };
+
+    const run = async (task: Task) => {
+      const retries = task.retries ?? 0;
+      started.add(task);
+      running.set(task, task.title);
+      draw();
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await task.task((message) => {
+            if (running.has(task)) running.set(task, message);
+          });
+          // the task was already settled when the signal was aborted
+          if (!running.has(task)) return;
+          succeeded.push(task);
+          done.add(taskId(task));
+          settle(task, symbol('submit', theme), result || task.title);
+          break;
+        } catch (error) {
+          if (!running.has(task)) return;
+          if (attempt <= retries) {
+            running.set(
+              task,
+              `${task.title} ${locale.taskRetrying(attempt, retries)}`,
+            );
+            continue;
+          }
+          settle(
+            task,
+            stopSymbol(2, theme),
+            `${task.title}: ${errorMessage(error)}`,
+          );
+          const action =
+            task.onError === 'prompt'
+              ? await ask(task, error)
+              : (task.onError ?? 'abort');
+          if (stopped) return;
+          if (signal?.aborted) {
+            failed.push(task);
+            started.delete(task);
+            stop(1);
+            return;
+          }
+          if (action === 'retry') {
+            attempt = 0;
+            running.set(task, task.title);
+            draw();
+            continue;
+          }
+          failed.push(task);
+          if (action === 'abort') failure ??= { error };
+          break;
+        }
+      }
+      started.delete(task);
+      next();
+    };
+
+    const next = () => {
+      if (failure) skipped.push(...pending.splice(0));
+      // the tasks depending on a failed or skipped task cannot run
+      const blocked = new Set(
+        [...failed, ...skipped.filter((task) => task.enabled !== false)].map(
+          taskId,
+        ),
+      );
+      for (let changed = true; changed;) {
+        changed = false;
+        for (const task of [...pending]) {
+          if (!(task.dependsOn ?? []).some((id) => blocked.has(id))) continue;
+          pending.splice(pending.indexOf(task), 1);
+          skipped.push(task);
+          blocked.add(taskId(task));
+          changed = true;
+        }
+      }
+      for (const task of [...pending]) {
+        if (started.size >= concurrency) break;
+        if (!(task.dependsOn ?? []).every((id) => done.has(id))) continue;
+        pending.splice(pending.indexOf(task), 1);
+        void run(task);
+      }
+      if (started.size === 0 && pending.length === 0) void finish();
+    };
+
+    next();
+  });
 };
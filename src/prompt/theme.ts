@@ -0,0 +1,202 @@
+import isUnicodeSupported from 'is-unicode-supported';
+import color from 'picocolors';
+import type { State } from '../core/index.js';
+
+const unicode = isUnicodeSupported();
+const s = (c: string, fallback: string) => (unicode ? c : fallback);
+
+export type Colorize = (text: string) => string;
+
+export interface Theme {
+  symbols: {
+    stepActive: string;
+    stepCancel: string;
+    stepError: string;
+    stepSubmit: string;
+    barStart: string;
+    bar: string;
+    barEnd: string;
+    radioActive: string;
+    radioInactive: string;
+    checkboxActive: string;
+    checkboxSelected: string;
+    checkboxInactive: string;
+    passwordMask: string;
+    info: string;
+    success: string;
+    warn: string;
+    error: string;
+  };
+  colors: {
+    /** Step symbol and gutter of a prompt in each state. */
+    state: Record<State, Colorize>;
+    /** Gutter of answered prompts and log messages. */
+    gutter: Colorize;
+    /** Secondary text such as placeholders and separators. */
+    muted: Colorize;
+    info: Colorize;
+    success: Colorize;
+    warn: Colorize;
+    error: Colorize;
+  };
+  /** Styles of the options of select-like prompts. */
+  options: {
+    active: Colorize;
+    inactive: Colorize;
+    /** Options shown as the answer of a submitted prompt. */
+    selected: Colorize;
+    cancelled: Colorize;
+    hint: Colorize;
+    /** Characters matched by the search of autocomplete prompts. */
+    match: Colorize;
+    radioActive: Colorize;
+    radioInactive: Colorize;
+    checkboxActive: Colorize;
+    checkboxSelected: Colorize;
+    checkboxInactive: Colorize;
+    /** Key badges of `selectKey()` and key hints. */
+    keyActive: Colorize;
+    keyInactive: Colorize;
+  };
+  box: {
+    horizontal: string;
+    vertical: string;
+    cornerTopRight: string;
+    connectLeft: string;
+    cornerBottomRight: string;
+    border: Colorize;
+  };
+  spinner: {
+    frames: string[];
+    delay: number;
+    color: Colorize;
+  };
+  /** Bar drawn by `progress()`. */
+  progress: {
+    filled: string;
+    empty: string;
+    color: Colorize;
+  };
+}
+
+export type ThemeOverrides = {
+  [K in keyof Theme]?: Theme[K] extends { state: any }
+    ? Partial<Omit<Theme[K], 'state'>> & {
+        state?: Partial<Theme[K]['state']>;
+      }
+    : Partial<Theme[K]>;
+};
+
+export interface ThemeOptions {
+  /** Overrides of the current theme for this call only. */
+  theme?: ThemeOverrides;
+}
+
+export const defaultTheme: Theme = {
+  symbols: {
+    stepActive: s('◆', '*'),
+    stepCancel: s('■', 'x'),
+    stepError: s('▲', 'x'),
+    stepSubmit: s('◇', 'o'),
+    barStart: s('┌', 'T'),
+    bar: s('│', '|'),
+    barEnd: s('└', '—'),
+    radioActive: s('●', '>'),
+    radioInactive: s('○', ' '),
+    checkboxActive: s('◻', '[•]'),
+    checkboxSelected: s('◼', '[+]'),
+    checkboxInactive: s('◻', '[ ]'),
+    passwordMask: s('▪', '•'),
+    info: s('●', '•'),
+    success: s('◆', '*'),
+    warn: s('▲', '!'),
+    error: s('■', 'x'),
+  },
+  colors: {
+    state: {
+      initial: color.cyan,
+      active: color.cyan,
+      validating: color.magenta,
+      cancel: color.red,
+      error: color.yellow,
+      submit: color.green,
+    },
+    gutter: color.gray,
+    muted: color.dim,
+    info: color.blue,
+    success: color.green,
+    warn: color.yellow,
+    error: color.red,
+  },
+  options: {
+    active: (text) => text,
+    inactive: color.dim,
+    selected: color.dim,
+    cancelled: (text) => color.strikethrough(color.dim(text)),
+    hint: color.dim,
+    match: color.underline,
+    radioActive: color.green,
+    radioInactive: color.dim,
+    checkboxActive: color.cyan,
+    checkboxSelected: color.green,
+    checkboxInactive: color.dim,
+    keyActive: (text) => color.bgCyan(color.gray(text)),
+    keyInactive: (text) => color.gray(color.bgWhite(color.inverse(text))),
+  },
+  box: {
+    horizontal: s('─', '-'),
+    vertical: s('│', '|'),
+    cornerTopRight: s('╮', '+'),
+    connectLeft: s('├', '+'),
+    cornerBottomRight: s('╯', '+'),
+    border: color.gray,
+  },
+  spinner: {
+    frames: unicode ? ['◒', '◐', '◓', '◑'] : ['•', 'o', 'O', '0'],
+    delay: unicode ? 80 : 120,
+    color: color.magenta,
+  },
+  progress: {
+    filled: s('█', '#'),
+    empty: s('░', '-'),
+    color: color.magenta,
+  },
+};
+
+/** Creates a theme by applying `overrides` on top of `base`. */
+export function createTheme(
+  overrides: ThemeOverrides = {},
+  base: Theme = defaultTheme,
+): Theme {
+  return {
+    symbols: { ...base.symbols, ...overrides.symbols },
+    colors: {
+      ...base.colors,
+      ...overrides.colors,
+      state: { ...base.colors.state, ...overrides.colors?.state },
+    },
+    options: { ...base.options, ...overrides.options },
+    box: { ...base.box, ...overrides.box },
+    spinner: { ...base.spinner, ...overrides.spinner },
+    progress: { ...base.progress, ...overrides.progress },
+  };
+}
+
+let currentTheme = defaultTheme;
+
+/**
+ * Sets the theme used by every prompt. Overrides are applied on top of the
+ * default theme.
+ */
+export function setTheme(theme: Theme | ThemeOverrides): void {
+  currentTheme = createTheme(theme);
+}
+
+export function getTheme(): Theme {
+  return currentTheme;
+}
+
+/** The current theme with the overrides of a single call applied. */
+export function resolveTheme(overrides?: ThemeOverrides): Theme {
+  return overrides ? createTheme(overrides, currentTheme) : currentTheme;
+}
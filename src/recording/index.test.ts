@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getDefaultStreams } from '../core/index.js';
+import { confirm, setDefaultStreams, spinner, text } from '../prompt/index.js';
+import { createTestTerminal, tick } from '../testing/index.js';
+import { createRecorder, replay, toAsciicast } from './index.js';
+
+// asks a question on each side of a spinner, which also reads the input
+const wizard = async () => {
+  const name = await text({ message: 'Name' });
+  const s = spinner();
+  s.start('Saving');
+  await tick(30);
+  s.stop('Saved');
+  const sure = await confirm({ message: 'Sure?' });
+  return { name, sure };
+};
+
+const record = async () => {
+  const terminal = createTestTerminal({ columns: 40, rows: 12 });
+  const recorder = createRecorder(terminal);
+  setDefaultStreams(recorder);
+  const result = wizard();
+  await terminal.type('ann');
+  await terminal.sendKeys('return');
+  terminal.resize(30, 10);
+  await tick(50);
+  await terminal.sendKeys('y');
+  expect(await result).toEqual({ name: 'ann', sure: true });
+  return recorder.stop();
+};
+
+describe('recording', () => {
+  const streams = getDefaultStreams();
+  afterEach(() => setDefaultStreams(streams));
+
+  it('records the keys, output and resizes of a session', async () => {
+    const recording = await record();
+    expect(recording).toMatchObject({ columns: 40, rows: 12 });
+    const keys = recording.events
+      .filter(({ type }) => type === 'input')
+      .map(({ data }) => data);
+    expect(keys).toEqual(['a', 'n', 'n', '\r', 'y']);
+    expect(recording.events).toContainEqual(
+      expect.objectContaining({ type: 'resize', data: '30x10' }),
+    );
+  });
+
+  it('replays the keys to the prompts, not to the spinner', async () => {
+    const recording = await record();
+    const { result, terminal } = await replay(recording, wizard);
+    expect(result).toEqual({ name: 'ann', sure: true });
+    expect(terminal.output.columns).toBe(30);
+    expect(terminal.frame()).toContain('Sure?');
+  });
+
+  it('fails when no prompt reads the keys left', async () => {
+    const recording = await record();
+    const replayed = replay(
+      recording,
+      async () => {
+        await text({ message: 'Name' });
+        await new Promise(() => {});
+      },
+      { timeout: 100 },
+    );
+    await expect(replayed).rejects.toThrow('No prompt read the recorded key');
+  });
+
+  it('exports the output as an asciicast', async () => {
+    const recording = await record();
+    const [header, ...events] = toAsciicast(recording)
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(header).toMatchObject({ version: 2, width: 40, height: 12 });
+    expect(events.map(([, type]) => type)).not.toContain('i');
+    expect(events).toContainEqual([expect.any(Number), 'r', '30x10']);
+  });
+});
@@ -0,0 +1,272 @@
+import { performance } from 'node:perf_hooks';
+import { PassThrough, type Readable, Writable } from 'node:stream';
+import type { ReadStream, WriteStream } from 'node:tty';
+import {
+  type Prompt,
+  type Streams,
+  getDefaultStreams,
+  setDefaultStreams,
+  withPromptListener,
+} from '../core/index.js';
+import {
+  ESC,
+  ESCAPE_CODE_TIMEOUT,
+  type TestTerminal,
+  createTestTerminal,
+  tick,
+} from '../testing/index.js';
+
+export interface RecordingEvent {
+  /** Milliseconds since the recording started. */
+  time: number;
+  /** Keys read, text written, or the new size of the terminal as `80x24`. */
+  type: 'input' | 'output' | 'resize';
+  data: string;
+}
+
+/** A recorded session, serializable as JSON to attach to a bug report. */
+export interface Recording {
+  columns: number;
+  rows: number;
+  /** Epoch milliseconds the recording started at. */
+  startedAt: number;
+  title?: string;
+  events: RecordingEvent[];
+}
+
+/**
+ * Input recording the keys read from another stream. Keys are only read
+ * while a prompt or spinner puts it in raw mode, so the stream does not keep
+ * the process alive in between.
+ */
+export class RecordingReadable extends PassThrough {
+  isRaw = false;
+  #source: Readable;
+  #record: (data: string) => void;
+
+  constructor(source: Readable, record: (data: string) => void) {
+    super();
+    this.#source = source;
+    this.#record = record;
+    this.forward = this.forward.bind(this);
+  }
+
+  get isTTY(): boolean {
+    return !!(this.#source as ReadStream).isTTY;
+  }
+
+  setRawMode(mode: boolean): this {
+    if (mode === this.isRaw) return this;
+    this.isRaw = mode;
+    (this.#source as ReadStream).setRawMode?.(mode);
+    if (mode) {
+      this.#source.on('data', this.forward).resume();
+    } else {
+      this.#source.off('data', this.forward);
+      this.#source.pause();
+    }
+    return this;
+  }
+
+  private forward(chunk: Buffer | string) {
+    const data = String(chunk);
+    this.#record(data);
+    this.write(data);
+  }
+}
+
+/** Output recording the text written to another stream. */
+export class RecordingWritable extends Writable {
+  #target: Writable;
+  #record: (data: string) => void;
+
+  constructor(target: Writable, record: (data: string) => void) {
+    super();
+    this.#target = target;
+    this.#record = record;
+  }
+
+  get isTTY(): boolean {
+    return !!(this.#target as WriteStream).isTTY;
+  }
+
+  get columns(): number | undefined {
+    return (this.#target as WriteStream).columns;
+  }
+
+  get rows(): number | undefined {
+    return (this.#target as WriteStream).rows;
+  }
+
+  override _write(
+    chunk: Buffer | string,
+    _encoding: BufferEncoding,
+    done: (error?: Error | null) => void,
+  ): void {
+    const data = String(chunk);
+    this.#record(data);
+    this.#target.write(data, done);
+  }
+}
+
+export interface RecorderOptions extends Partial<Streams> {
+  title?: string;
+}
+
+export interface Recorder extends Streams {
+  input: RecordingReadable;
+  output: RecordingWritable;
+  /** Events recorded so far. */
+  recording: Recording;
+  /** Stops recording and reading keys, returning the recording. */
+  stop(): Recording;
+}
+
+/**
+ * Records what a session reads and writes. Pass `input` and `output` to the
+ * prompts, or to `setDefaultStreams()` to also record the log and spinner
+ * output, then `stop()` once the wizard is done.
+ */
+export function createRecorder({
+  input = getDefaultStreams().input,
+  output = getDefaultStreams().output,
+  title,
+}: RecorderOptions = {}): Recorder {
+  const start = performance.now();
+  const size = () => ({
+    columns: (output as WriteStream).columns || 80,
+    rows: (output as WriteStream).rows || 24,
+  });
+  const recording: Recording = {
+    ...size(),
+    startedAt: Date.now(),
+    ...(title === undefined ? {} : { title }),
+    events: [],
+  };
+  const record = (type: RecordingEvent['type']) => (data: string) => {
+    recording.events.push({
+      time: Math.round((performance.now() - start) * 1000) / 1000,
+      type,
+      data,
+    });
+  };
+
+  const recordingInput = new RecordingReadable(input, record('input'));
+  const recordingOutput = new RecordingWritable(output, record('output'));
+  const onResize = () => {
+    const { columns, rows } = size();
+    record('resize')(`${columns}x${rows}`);
+    recordingOutput.emit('resize');
+  };
+  output.on('resize', onResize);
+
+  return {
+    input: recordingInput,
+    output: recordingOutput,
+    recording,
+    stop() {
+      output.off('resize', onResize);
+      recordingInput.setRawMode(false);
+      return recording;
+    },
+  };
+}
+
+export interface ReplayOptions {
+  /**
+   * Milliseconds to wait for a prompt to read the next key before failing,
+   * 5 seconds by default.
+   */
+  timeout?: number;
+}
+
+export interface ReplayResult<T> {
+  /** What the wizard returned. */
+  result: T;
+  /** Terminal the session was replayed on, showing its last screen. */
+  terminal: TestTerminal;
+}
+
+/**
+ * Runs the wizard again on a test terminal of the recorded size, sending the
+ * recorded keys through its input. Each key is sent once a prompt of the
+ * wizard reads the input, as it was when recorded, so the replay does not
+ * depend on timing. Spinners read the input too, but only to hide the keys.
+ */
+export async function replay<T>(
+  recording: Recording,
+  wizard: () => T | Promise<T>,
+  { timeout = 5000 }: ReplayOptions = {},
+): Promise<ReplayResult<T>> {
+  const terminal = createTestTerminal({
+    columns: recording.columns,
+    rows: recording.rows,
+  });
+  const previous = getDefaultStreams();
+  setDefaultStreams({ input: terminal.input, output: terminal.output });
+  // prompts started by the wizard and not answered yet
+  const open = new Set<Prompt>();
+  const track = (prompt: Prompt) => {
+    open.add(prompt);
+    const close = () => open.delete(prompt);
+    prompt.once('submit', close);
+    prompt.once('cancel', close);
+    prompt.once('back', close);
+  };
+  const listening = () => open.size > 0 && terminal.input.isRaw;
+  let settled = false;
+  const running = withPromptListener(track, wizard).finally(() => {
+    settled = true;
+  });
+  try {
+    for (const { type, data } of recording.events) {
+      if (settled) break;
+      if (type === 'resize') {
+        const [columns, rows] = data.split('x').map(Number);
+        terminal.resize(columns!, rows!);
+      } else if (type === 'input') {
+        const since = performance.now();
+        while (!listening() && !settled) {
+          if (performance.now() - since > timeout) {
+            // the wizard is left waiting, its outcome no longer matters
+            running.catch(() => {});
+            throw new Error(
+              `No prompt read the recorded key ${JSON.stringify(data)} within ${timeout}ms`,
+            );
+          }
+          await tick();
+        }
+        if (settled) break;
+        terminal.input.write(data);
+        await tick(data === ESC ? ESCAPE_CODE_TIMEOUT : 0);
+      }
+    }
+    return { result: await running, terminal };
+  } finally {
+    setDefaultStreams(previous);
+  }
+}
+
+/**
+ * Formats the output of a recording as an asciinema v2 `.cast` file. Keys
+ * are left out, since the output already shows their effect.
+ */
+export function toAsciicast(recording: Recording): string {
+  const header = {
+    version: 2,
+    width: recording.columns,
+    height: recording.rows,
+    timestamp: Math.floor(recording.startedAt / 1000),
+    ...(recording.title === undefined ? {} : { title: recording.title }),
+  };
+  const events = recording.events
+    .filter(({ type }) => type !== 'input')
+    .map(({ time, type, data }) =>
+      JSON.stringify([
+        Math.round(time * 1000) / 1e6,
+        type === 'output' ? 'o' : 'r',
+        data,
+      ]),
+    );
+  return `${[JSON.stringify(header), ...events].join('\n')}\n`;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { VirtualScreen, createTestTerminal } from './index.js';
+
+describe('VirtualScreen', () => {
+  it('prints text and line feeds', () => {
+    const screen = new VirtualScreen(20, 5);
+    screen.write('hello\nworld');
+    expect(screen.toString()).toBe('hello\nworld');
+    expect(screen.cursor).toEqual({ x: 5, y: 1 });
+  });
+
+  it('drops colors and styles', () => {
+    const screen = new VirtualScreen(20, 5);
+    screen.write('\x1b[32mgreen\x1b[39m \x1b[1;4mbold\x1b[0m');
+    expect(screen.toString()).toBe('green bold');
+  });
+
+  it('moves the cursor', () => {
+    const screen = new VirtualScreen(20, 5);
+    screen.write('abc\ndef\x1b[1A\x1b[2DX');
+    expect(screen.lines.slice(0, 2)).toEqual(['aXc', 'def']);
+    screen.write('\x1b[3;5HY');
+    expect(screen.lines[2]).toBe('    Y');
+    screen.write('\x1b[2G\x1b[1BZ');
+    expect(screen.lines[3]).toBe(' Z');
+  });
+
+  it('erases lines and the screen below the cursor', () => {
+    const screen = new VirtualScreen(20, 5);
+    screen.write('one\ntwo\nthree');
+    screen.write('\x1b[1A\x1b[999D\x1b[J');
+    expect(screen.toString()).toBe('one');
+    screen.write('\x1b[1A\x1b[2C\x1b[K');
+    expect(screen.toString()).toBe('on');
+  });
+
+  it('tracks the cursor visibility', () => {
+    const screen = new VirtualScreen(20, 5);
+    screen.write('\x1b[?25l');
+    expect(screen.cursorVisible).toBe(false);
+    screen.write('\x1b[?25h');
+    expect(screen.cursorVisible).toBe(true);
+  });
+
+  it('wraps lines longer than the screen', () => {
+    const screen = new VirtualScreen(4, 5);
+    screen.write('abcdefghij');
+    expect(screen.lines.slice(0, 3)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('scrolls lines off the top into the scrollback', () => {
+    const screen = new VirtualScreen(10, 2);
+    screen.write('1\n2\n3\n4');
+    expect(screen.toString()).toBe('3\n4');
+    expect(screen.scrollback).toEqual(['1', '2']);
+  });
+
+  it('keeps the lines above the cursor when shrinking', () => {
+    const screen = new VirtualScreen(10, 4);
+    screen.write('1\n2\n3');
+    screen.resize(10, 2);
+    expect(screen.toString()).toBe('2\n3');
+    expect(screen.scrollback).toEqual(['1']);
+    expect(screen.cursor.y).toBe(1);
+  });
+
+  it('crops lines to a narrower screen and pads a wider one', () => {
+    const screen = new VirtualScreen(6, 2);
+    screen.write('abcdef');
+    screen.resize(3, 3);
+    expect(screen.lines).toEqual(['abc', '', '']);
+    screen.resize(8, 3);
+    screen.write('\x1b[1;4Hxyz');
+    expect(screen.lines[0]).toBe('abcxyz');
+  });
+});
+
+describe('createTestTerminal', () => {
+  it('sends keys by name and text', async () => {
+    const terminal = createTestTerminal();
+    const received: string[] = [];
+    terminal.input.on('data', (chunk) => received.push(String(chunk)));
+    await terminal.sendKeys('up', 'return', 'x');
+    await terminal.type('hi');
+    expect(received).toEqual(['\x1b[A', '\r', 'x', 'h', 'i']);
+  });
+
+  it('renders the output and resizes it', () => {
+    const terminal = createTestTerminal({ columns: 20, rows: 5 });
+    const sizes: string[] = [];
+    terminal.output.on('resize', () =>
+      sizes.push(`${terminal.output.columns}x${terminal.output.rows}`),
+    );
+    terminal.output.write('frame');
+    terminal.resize(30, 8);
+    expect(terminal.frame()).toBe('frame');
+    expect(terminal.output.chunks).toEqual(['frame']);
+    expect(sizes).toEqual(['30x8']);
+  });
+});
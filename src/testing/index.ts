@@ -0,0 +1,316 @@
+import { PassThrough, Writable } from 'node:stream';
+
+export const ESC = '\x1b';
+
+/**
+ * Key names accepted by `sendKeys()` and the sequences a terminal emits for
+ * them. Anything else is sent as is.
+ */
+export const keySequences = {
+  up: `${ESC}[A`,
+  down: `${ESC}[B`,
+  right: `${ESC}[C`,
+  left: `${ESC}[D`,
+  home: `${ESC}[H`,
+  end: `${ESC}[F`,
+  delete: `${ESC}[3~`,
+  backspace: '\x7f',
+  return: '\r',
+  enter: '\r',
+  tab: '\t',
+  'shift-tab': `${ESC}[Z`,
+  space: ' ',
+  escape: ESC,
+  'ctrl-c': '\x03',
+  'ctrl-d': '\x04',
+} as const;
+
+export type KeyName = keyof typeof keySequences;
+
+/**
+ * Interprets the cursor movement and erase sequences written by the prompts
+ * and keeps the text that would be visible on a terminal of the given size.
+ * Colors and other styling are dropped.
+ */
+export class VirtualScreen {
+  columns: number;
+  rows: number;
+  /** Lines that scrolled off the top of the screen. */
+  scrollback: string[] = [];
+  cursorVisible = true;
+  #lines: string[][] = [];
+  #x = 0;
+  #y = 0;
+
+  constructor(columns = 80, rows = 24) {
+    this.columns = columns;
+    this.rows = rows;
+    this.clear();
+  }
+
+  get cursor(): { x: number; y: number } {
+    return { x: this.#x, y: this.#y };
+  }
+
+  /** The visible lines, without trailing whitespace. */
+  get lines(): string[] {
+    return this.#lines.map((line) => line.join('').trimEnd());
+  }
+
+  /** The visible screen, without trailing blank lines. */
+  toString(): string {
+    return this.lines.join('\n').trimEnd();
+  }
+
+  clear(): void {
+    this.#lines = Array.from({ length: this.rows }, () => this.#blank());
+    this.#x = 0;
+    this.#y = 0;
+  }
+
+  resize(columns: number, rows: number): void {
+    this.columns = columns;
+    while (this.#lines.length < rows) this.#lines.push(this.#blank());
+    // like terminals, drop the lines below the cursor before scrolling
+    while (this.#lines.length > rows && this.#lines.length - 1 > this.#y) {
+      this.#lines.pop();
+    }
+    while (this.#lines.length > rows) {
+      this.scrollback.push(this.#lines.shift()!.join('').trimEnd());
+      this.#y = Math.max(this.#y - 1, 0);
+    }
+    this.#lines = this.#lines.map((line) =>
+      line.slice(0, columns).concat(this.#blank().slice(line.length)),
+    );
+    this.rows = rows;
+    this.#x = Math.min(this.#x, columns - 1);
+  }
+
+  write(data: string): void {
+    for (let i = 0; i < data.length; i++) {
+      const char = data[i]!;
+      if (char === ESC) {
+        i = this.#escape(data, i);
+      } else if (char === '\r') {
+        this.#x = 0;
+      } else if (char === '\n') {
+        this.#x = 0;
+        this.#lineFeed();
+      } else if (char === '\b') {
+        this.#x = Math.max(this.#x - 1, 0);
+      } else if (char >= ' ') {
+        this.#print(char);
+      }
+    }
+  }
+
+  #blank(): string[] {
+    return Array.from({ length: this.columns }, () => ' ');
+  }
+
+  #print(char: string) {
+    if (this.#x >= this.columns) {
+      this.#x = 0;
+      this.#lineFeed();
+    }
+    this.#lines[this.#y]![this.#x] = char;
+    this.#x++;
+  }
+
+  #lineFeed() {
+    if (this.#y < this.rows - 1) {
+      this.#y++;
+      return;
+    }
+    this.scrollback.push(this.#lines.shift()!.join('').trimEnd());
+    this.#lines.push(this.#blank());
+  }
+
+  #erase(y: number, from: number, to: number) {
+    const line = this.#lines[y]!;
+    for (let x = Math.max(from, 0); x < Math.min(to, this.columns); x++) {
+      line[x] = ' ';
+    }
+  }
+
+  /** Handles the escape sequence starting at `start`, returns its last index. */
+  #escape(data: string, start: number): number {
+    const next = data[start + 1];
+    if (next === '7' || next === '8') return start + 1;
+    if (next !== '[') return start;
+
+    const match = /^\[([?]?)([\d;]*)([@-~])/.exec(data.slice(start + 1));
+    if (!match) return start;
+    const [sequence, privateMode, rawParams, command] = match;
+    const params = rawParams!.split(';').map((p) => Number(p) || 0);
+    const n = Math.max(params[0] ?? 0, 1);
+
+    if (privateMode) {
+      if (rawParams === '25') this.cursorVisible = command === 'h';
+      return start + sequence.length;
+    }
+
+    switch (command) {
+      case 'A':
+        this.#y = Math.max(this.#y - n, 0);
+        break;
+      case 'B':
+        this.#y = Math.min(this.#y + n, this.rows - 1);
+        break;
+      case 'C':
+        this.#x = Math.min(this.#x + n, this.columns - 1);
+        break;
+      case 'D':
+        this.#x = Math.max(Math.min(this.#x, this.columns - 1) - n, 0);
+        break;
+      case 'E':
+        this.#x = 0;
+        this.#y = Math.min(this.#y + n, this.rows - 1);
+        break;
+      case 'F':
+        this.#x = 0;
+        this.#y = Math.max(this.#y - n, 0);
+        break;
+      case 'G':
+        this.#x = Math.min(n - 1, this.columns - 1);
+        break;
+      case 'H':
+      case 'f':
+        this.#y = Math.min(n - 1, this.rows - 1);
+        this.#x = Math.min(Math.max(params[1] ?? 1, 1) - 1, this.columns - 1);
+        break;
+      case 'J': {
+        const mode = params[0] ?? 0;
+        if (mode === 0) {
+          this.#erase(this.#y, this.#x, this.columns);
+          for (let y = this.#y + 1; y < this.rows; y++) {
+            this.#erase(y, 0, this.columns);
+          }
+        } else if (mode === 1) {
+          this.#erase(this.#y, 0, this.#x + 1);
+          for (let y = 0; y < this.#y; y++) this.#erase(y, 0, this.columns);
+        } else {
+          for (let y = 0; y < this.rows; y++) this.#erase(y, 0, this.columns);
+        }
+        break;
+      }
+      case 'K': {
+        const mode = params[0] ?? 0;
+        if (mode === 0) this.#erase(this.#y, this.#x, this.columns);
+        else if (mode === 1) this.#erase(this.#y, 0, this.#x + 1);
+        else this.#erase(this.#y, 0, this.columns);
+        break;
+      }
+      // colors and styles are not kept
+      case 'm':
+      default:
+        break;
+    }
+    return start + sequence.length;
+  }
+}
+
+/** Readable stream standing in for a TTY keyboard. */
+export class MockReadable extends PassThrough {
+  isTTY = true;
+  isRaw = false;
+
+  setRawMode(mode: boolean): this {
+    this.isRaw = mode;
+    return this;
+  }
+}
+
+/** Writable stream standing in for a TTY, rendering into a virtual screen. */
+export class MockWritable extends Writable {
+  isTTY = true;
+  columns: number;
+  rows: number;
+  screen: VirtualScreen;
+  /** Every chunk written, escape sequences included. */
+  chunks: string[] = [];
+
+  constructor({ columns = 80, rows = 24 }: TerminalSize = {}) {
+    super();
+    this.columns = columns;
+    this.rows = rows;
+    this.screen = new VirtualScreen(columns, rows);
+  }
+
+  override _write(
+    chunk: Buffer | string,
+    _encoding: BufferEncoding,
+    done: (error?: Error | null) => void,
+  ): void {
+    const data = String(chunk);
+    this.chunks.push(data);
+    this.screen.write(data);
+    done();
+  }
+
+  /** Changes the size of the terminal and emits `resize` like a TTY does. */
+  resize(columns: number, rows: number): void {
+    this.columns = columns;
+    this.rows = rows;
+    this.screen.resize(columns, rows);
+    this.emit('resize');
+  }
+}
+
+export interface TerminalSize {
+  columns?: number;
+  rows?: number;
+}
+
+/** Milliseconds the prompts wait before treating a lone escape as a key. */
+export const ESCAPE_CODE_TIMEOUT = 60;
+
+/** Waits for the prompts to handle what was sent, `ms` at the least. */
+export const tick = (ms = 0) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface TestTerminal {
+  input: MockReadable;
+  output: MockWritable;
+  screen: VirtualScreen;
+  /** Sends keypresses by name, see `keySequences`, or as raw sequences. */
+  sendKeys(...keys: Array<KeyName | (string & {})>): Promise<void>;
+  /** Types text character by character. */
+  type(text: string): Promise<void>;
+  /** The currently visible frame. */
+  frame(): string;
+  resize(columns: number, rows: number): void;
+}
+
+/**
+ * Creates mock input and output streams for driving prompts without a real
+ * terminal. Pass `input` and `output` to a prompt, then send keys and assert
+ * on `frame()` after each step.
+ */
+export function createTestTerminal(size: TerminalSize = {}): TestTerminal {
+  const input = new MockReadable();
+  const output = new MockWritable(size);
+
+  const send = async (sequence: string) => {
+    input.write(sequence);
+    await tick(sequence === ESC ? ESCAPE_CODE_TIMEOUT : 0);
+  };
+
+  return {
+    input,
+    output,
+    screen: output.screen,
+    async sendKeys(...keys) {
+      for (const key of keys) {
+        await send(keySequences[key as KeyName] ?? key);
+      }
+    },
+    async type(text) {
+      for (const char of text) {
+        await send(char);
+      }
+    },
+    frame: () => output.screen.toString(),
+    resize: (columns, rows) => output.resize(columns, rows),
+  };
+}